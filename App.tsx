@@ -1,72 +1,538 @@
 
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import JSZip from 'jszip';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { ImageItem } from './components/ImageItem';
-import { generateImageDetails } from './services/geminiService';
-import { SparklesIcon, DownloadIcon, DocumentTextIcon, TagIcon, CopyIcon, CheckIcon } from './components/icons';
+import {
+    generateImageDetails,
+    MAX_NAME_CANDIDATES,
+    type GenerationOptions,
+    type ImageDetails,
+    type NameGeneration,
+} from './services/geminiService';
+import { SparklesIcon, DownloadIcon, DocumentTextIcon, TagIcon, CopyIcon, CheckIcon, FolderIcon } from './components/icons';
 import { TagEditorModal } from './components/KeywordModal';
 import { GlobalKeywordAdder } from './components/GlobalKeywordAdder';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { loadProviderSettings, saveProviderSettings, type ProviderSettings } from './services/providers';
+import { createBatchQueue, EMPTY_BATCH_PROGRESS, type BatchProgress, type BatchQueue } from './services/batchQueue';
+import { BatchProgressBar } from './components/BatchProgressBar';
+import { loadResizeSettings, saveResizeSettings, type ResizeSettings } from './services/imagePreprocessing';
+import { ResizeSettingsPanel } from './components/ResizeSettingsPanel';
+import { loadLanguageSettings, saveLanguageSettings, type LanguageSettings, type OutputLanguage } from './services/languages';
+import { LanguageSelector } from './components/LanguageSelector';
+import type { UnmatchedKeywordPolicy } from './services/keywordValidation';
+import { buildVocabularyIndex, listVocabularyKeywords, listVocabularySynonyms, loadVocabulary, normalizeKeywords, saveVocabulary, type Vocabulary } from './services/vocabulary';
+import { VocabularyPanel } from './components/VocabularyPanel';
+import { createExport, loadExportSettings, saveExportSettings, type ExportSettings } from './services/exporters';
+import { ExportDialog } from './components/ExportDialog';
+import { AGENCY_PROFILES, loadAgencyId, saveAgencyId, validateForAgency, type AgencyId } from './services/agencyProfiles';
+import { AgencySelector } from './components/AgencySelector';
+import { applyImport, parseImportFile, previewImport, type ImportMatch, type ImportPreview } from './services/batchImport';
+import { ImportPreviewDialog } from './components/ImportPreviewDialog';
+import { generateWithCache, getResponseCacheKey, readCachedDetails } from './services/responseCache';
+import { getRetryDelay, isTransientError, retryTransient, toImageError, type ImageError } from './services/aiErrors';
+import { ResponseCachePanel } from './components/ResponseCachePanel';
+import { getActiveProfile, loadPromptProfileSettings, savePromptProfileSettings, type PromptProfileSettings } from './services/promptProfiles';
+import { PromptProfilePanel } from './components/PromptProfilePanel';
+import { addUsage, describeUsage, EMPTY_USAGE, formatCost, getModelPrice, loadBudget, saveBudget, toUsageTotals, totalTokens, type UsageTotals } from './services/usage';
+import { downloadBlob } from './utils/fileUtils';
+import type { UploadedFile } from './utils/directoryEntries';
+import { groupByFolder } from './services/folders';
+import { readImageMetadata, type ImageMetadata } from './services/metadataReader';
+import {
+    getTemplateContext,
+    loadFilenameTemplate,
+    renderFilename,
+    saveFilenameTemplate,
+    SAMPLE_TEMPLATE_CONTEXT,
+    usesAiName,
+    validateTemplate,
+    type FilenameTemplate,
+} from './services/filenameTemplate';
+import { FilenameTemplateEditor } from './components/FilenameTemplateEditor';
+import { findNameCollisions, resolveCollisions, type CollisionStrategy } from './services/nameCollisions';
+import { CollisionWarning } from './components/CollisionWarning';
+import { copyLeaderDetails, findDuplicates, orderByDuplicateGroup } from './services/duplicateDetection';
+import { DuplicatePanel } from './components/DuplicatePanel';
+import { createEntry, EMPTY_HISTORY, recordEntry, redoEntry, undoEntry, type HistoryState } from './services/undoHistory';
+import { HistoryPanel } from './components/HistoryPanel';
+import { computeDHash, sha256Hex } from './utils/imageHash';
+import { SessionBar } from './components/SessionBar';
+import { RestoreSessionPrompt } from './components/RestoreSessionPrompt';
+import {
+    createSession,
+    deleteSession,
+    getActiveSessionId,
+    listSessions,
+    loadSession,
+    saveSession,
+    setActiveSessionId,
+    type SessionRecord,
+    type SessionSummary,
+} from './services/sessionStore';
 
 export interface ProcessedImage {
     id: string;
     file: File;
+    // Path inside the uploaded folder, e.g. "day1/beach/IMG_1.jpg"; just the
+    // filename for loose files. Exports rebuild the same folders.
+    relativePath: string;
     imageUrl: string;
     originalExtension: string;
+    // The cleaned name as returned by the AI, before the filename template is applied.
+    aiName: string;
+    // Every generation's ranked candidates, oldest first; aiName is one of them unless edited.
+    nameHistory: NameGeneration[];
     suggestedName: string;
     isLoading: boolean;
-    error: string | null;
+    error: ImageError | null;
     keywords: string[];
+    // AI keywords that matched nothing in the user's list, awaiting review.
+    flaggedKeywords: string[];
+    // Accessible alt text and a short SEO caption from the AI; both editable.
+    altText: string;
+    description: string;
+    // Language the AI text was generated in, plus keyword lists in other languages.
+    language: OutputLanguage;
+    keywordTranslations: Partial<Record<OutputLanguage, string[]>>;
+    // Stock agency category, picked by the AI when an agency profile is selected.
+    category: string;
+    // EXIF/IPTC/XMP details read from the file; null until parsed.
+    metadata: ImageMetadata | null;
+    // SHA-256 of the file and its 64-bit dHash as hex; null until computed.
+    contentHash: string | null;
+    perceptualHash: string | null;
+    // The last result came from the response cache instead of the AI.
+    fromCache: boolean;
+    // Tokens and estimated cost of every AI request made for this image.
+    usage: UsageTotals;
 }
 
+const DEFAULT_WORD_LIMIT = 10;
+
+const newSession = () => createSession(`Session ${new Date().toLocaleString()}`, { userKeywords: '', wordLimit: DEFAULT_WORD_LIMIT });
+
 const App: React.FC = () => {
     const [processedImages, setProcessedImages] = useState<ProcessedImage[]>([]);
-    const [wordLimit, setWordLimit] = useState<number>(10);
+    const processedImagesRef = useRef(processedImages);
+    processedImagesRef.current = processedImages;
+    const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+    const [wordLimit, setWordLimit] = useState<number>(DEFAULT_WORD_LIMIT);
+    const [candidateCount, setCandidateCount] = useState<number>(3);
     const [userKeywords, setUserKeywords] = useState<string>('');
-    const [isZipping, setIsZipping] = useState(false);
+    const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings);
+    const [isExportOpen, setIsExportOpen] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [agencyId, setAgencyId] = useState<AgencyId>(loadAgencyId);
+    const [pendingImport, setPendingImport] = useState<{ fileName: string; preview: ImportPreview } | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [useMetadataInPrompt, setUseMetadataInPrompt] = useState(true);
+    const [filenameTemplate, setFilenameTemplate] = useState<FilenameTemplate>(loadFilenameTemplate);
+    const [isResolvingCollisions, setIsResolvingCollisions] = useState(false);
+    const [skipDuplicates, setSkipDuplicates] = useState(true);
     const [editingImage, setEditingImage] = useState<ProcessedImage | null>(null);
     const [listCopied, setListCopied] = useState(false);
+    const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+    const [concurrency, setConcurrency] = useState<number>(3);
+    const [requestsPerMinute, setRequestsPerMinute] = useState<number>(50);
+    const [batchProgress, setBatchProgress] = useState<BatchProgress>(EMPTY_BATCH_PROGRESS);
+    const batchQueueRef = useRef<BatchQueue<ProcessedImage> | null>(null);
+    const [resizeSettings, setResizeSettings] = useState<ResizeSettings>(loadResizeSettings);
+    const [languageSettings, setLanguageSettings] = useState<LanguageSettings>(loadLanguageSettings);
+    const [vocabulary, setVocabulary] = useState<Vocabulary>(loadVocabulary);
+    const [promptProfiles, setPromptProfiles] = useState<PromptProfileSettings>(loadPromptProfileSettings);
+    const [unmatchedKeywords, setUnmatchedKeywords] = useState<UnmatchedKeywordPolicy>('flag');
+    // Original vs. uploaded bytes of the images named in the current batch.
+    const [batchTransfer, setBatchTransfer] = useState({ originalBytes: 0, uploadBytes: 0 });
+    // Tokens and cost of the current batch, and whether it was paused for going over the budget.
+    const [batchUsage, setBatchUsage] = useState<UsageTotals>(EMPTY_USAGE);
+    const [budget, setBudget] = useState<number | null>(loadBudget);
+    const [isOverBudget, setIsOverBudget] = useState(false);
+    const [session, setSession] = useState<SessionRecord>(newSession);
+    const [savedSessions, setSavedSessions] = useState<SessionSummary[]>([]);
+    const [restoreCandidate, setRestoreCandidate] = useState<SessionSummary | null>(null);
+
+    useEffect(() => {
+        saveProviderSettings(providerSettings);
+    }, [providerSettings]);
+
+    useEffect(() => {
+        saveFilenameTemplate(filenameTemplate);
+    }, [filenameTemplate]);
+
+    useEffect(() => {
+        saveResizeSettings(resizeSettings);
+    }, [resizeSettings]);
+
+    useEffect(() => {
+        saveLanguageSettings(languageSettings);
+    }, [languageSettings]);
+
+    useEffect(() => {
+        saveVocabulary(vocabulary);
+    }, [vocabulary]);
+
+    useEffect(() => {
+        savePromptProfileSettings(promptProfiles);
+    }, [promptProfiles]);
+
+    useEffect(() => {
+        saveExportSettings(exportSettings);
+    }, [exportSettings]);
+
+    useEffect(() => {
+        saveAgencyId(agencyId);
+    }, [agencyId]);
+
+    useEffect(() => {
+        saveBudget(budget);
+    }, [budget]);
+
+    const refreshSavedSessions = useCallback(async () => {
+        try {
+            const sessions = await listSessions();
+            setSavedSessions(sessions);
+            return sessions;
+        } catch (error) {
+            console.error("Failed to list saved sessions:", error);
+            return [];
+        }
+    }, []);
+
+    useEffect(() => {
+        refreshSavedSessions().then(sessions => {
+            const activeId = getActiveSessionId();
+            const candidate = sessions.find(s => s.id === activeId) ?? sessions[0];
+            if (candidate && candidate.imageCount > 0) {
+                setRestoreCandidate(candidate);
+            }
+        });
+    }, [refreshSavedSessions]);
+
+    const persistSession = useCallback(async () => {
+        // Don't create an empty session just by opening the app.
+        if (processedImages.length === 0 && !savedSessions.some(s => s.id === session.id)) return;
+        try {
+            await saveSession({ ...session, userKeywords, wordLimit }, processedImages);
+            setActiveSessionId(session.id);
+        } catch (error) {
+            console.error("Failed to save session:", error);
+        }
+    }, [processedImages, savedSessions, session, userKeywords, wordLimit]);
+
+    // Autosave shortly after any change to the queue or its settings.
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            persistSession().then(refreshSavedSessions);
+        }, 500);
+        return () => clearTimeout(timer);
+    // savedSessions is refreshed by the save itself and must not retrigger it.
+    }, [processedImages, session, userKeywords, wordLimit]);
+
+    const vocabularyKeywords = useMemo(() => listVocabularyKeywords(vocabulary.terms), [vocabulary.terms]);
+    const vocabularyIndex = useMemo(() => buildVocabularyIndex(vocabulary.terms), [vocabulary.terms]);
 
+    // Keywords typed in the text box; ones already in the vocabulary are listed in its tree instead.
     const userKeywordList = useMemo(() => {
-        return userKeywords.trim() ? userKeywords.split(',').map(k => k.trim()).filter(Boolean) : [];
-    }, [userKeywords]);
+        const typed = userKeywords.trim() ? userKeywords.split(',').map(k => k.trim()).filter(Boolean) : [];
+        return typed.filter(k => !vocabularyIndex.has(k.toLowerCase()));
+    }, [userKeywords, vocabularyIndex]);
+
+    // Maps synonyms to their vocabulary term and adds parent keywords if enabled.
+    const normalize = (keywords: string[]) => normalizeKeywords(keywords, vocabularyIndex, vocabulary.includeAncestors);
     
     const successfulImages = useMemo(() => processedImages.filter(img => !!img.suggestedName), [processedImages]);
     
     const allUniqueKeywords = useMemo(() => {
         const imageKeywords = processedImages.flatMap(img => img.keywords);
-        const all = [...userKeywordList, ...imageKeywords];
+        const all = [...userKeywordList, ...imageKeywords].filter(k => !vocabularyKeywords.includes(k));
         return [...new Set(all)].sort();
-    }, [processedImages, userKeywordList]);
+    }, [processedImages, userKeywordList, vocabularyKeywords]);
+
+    const modelPrice = useMemo(() => getModelPrice(providerSettings), [providerSettings]);
+    const totalUsage = useMemo(() => processedImages.reduce((sum, img) => addUsage(sum, img.usage), EMPTY_USAGE), [processedImages]);
+
+    const agencyProfile = AGENCY_PROFILES[agencyId];
+    const agencyIssues = useMemo(
+        () => new Map(processedImages.map(img => [img.id, validateForAgency(img, agencyProfile)])),
+        [processedImages, agencyProfile]
+    );
+    const agencyInvalidCount = useMemo(() => [...agencyIssues.values()].filter(issues => issues.length > 0).length, [agencyIssues]);
+
+    // The agency CSV is only available while an agency profile is selected.
+    const activeExportSettings = useMemo(() => agencyId === 'none'
+        ? { ...exportSettings, formats: exportSettings.formats.filter(format => format !== 'agency') }
+        : exportSettings, [exportSettings, agencyId]);
+
+    const nameCollisions = useMemo(() => findNameCollisions(processedImages), [processedImages]);
+    const collidingIds = useMemo(() => new Set(nameCollisions.flat().map(img => img.id)), [nameCollisions]);
+
+    const duplicates = useMemo(() => findDuplicates(processedImages), [processedImages]);
+    const displayedImages = useMemo(() => orderByDuplicateGroup(processedImages, duplicates), [processedImages, duplicates]);
+    const folderGroups = useMemo(() => groupByFolder(displayedImages), [displayedImages]);
+    // Headings only make sense once something was uploaded as a folder.
+    const showFolders = folderGroups.some(group => group.folder);
+
+    // Preview the template on the first named image, or on sample data before any exist.
+    const templatePreviewContext = useMemo(() => {
+        const index = processedImages.findIndex(img => img.aiName);
+        return index >= 0 ? getTemplateContext(processedImages[index], index + 1) : SAMPLE_TEMPLATE_CONTEXT;
+    }, [processedImages]);
 
     const renamedFilesList = useMemo(() => {
         return successfulImages.map(img => img.suggestedName).join(', ');
     }, [successfulImages]);
 
 
-    const handleImageUpload = useCallback((files: File[]) => {
-        const newImages: ProcessedImage[] = Array.from(files)
-            .filter(file => file.type.startsWith('image/'))
-            .map(file => {
+    // Reads metadata and hashes one image at a time so a large drop doesn't
+    // decode hundreds of full-size images at once.
+    const analyzeImages = useCallback(async (images: ProcessedImage[]) => {
+        for (const image of images) {
+            const [metadata, contentHash, perceptualHash] = await Promise.all([
+                readImageMetadata(image.file),
+                sha256Hex(image.file).catch(() => null),
+                computeDHash(image.file).catch(() => null),
+            ]);
+            setProcessedImages(prev => prev.map(img =>
+                img.id === image.id ? { ...img, metadata, contentHash, perceptualHash } : img
+            ));
+        }
+    }, []);
+
+    const handleImageUpload = useCallback((files: UploadedFile[]) => {
+        const newImages: ProcessedImage[] = files
+            .filter(({ file }) => file.type.startsWith('image/'))
+            .map(({ file, relativePath }) => {
                 const fileExt = file.name.slice(file.name.lastIndexOf('.'));
                 return {
                     id: `${file.name}-${file.lastModified}-${Math.random()}`,
                     file,
+                    relativePath,
                     imageUrl: URL.createObjectURL(file),
                     originalExtension: fileExt,
+                    aiName: '',
+                    nameHistory: [],
                     suggestedName: '',
                     isLoading: false,
                     error: null,
                     keywords: [],
+                    flaggedKeywords: [],
+                    altText: '',
+                    description: '',
+                    language: 'en',
+                    keywordTranslations: {},
+                    category: '',
+                    metadata: null,
+                    contentHash: null,
+                    perceptualHash: null,
+                    fromCache: false,
+                    usage: EMPTY_USAGE,
                 };
             });
         
         if (newImages.length > 0) {
             setProcessedImages(prev => [...prev, ...newImages]);
+            setRestoreCandidate(null);
+            analyzeImages(newImages);
         }
+    }, [analyzeImages]);
+
+    // Builds the final name from the AI result; an invalid template falls back to the AI name.
+    const applyTemplate = (image: ProcessedImage, sequence: number): string => {
+        if (validateTemplate(filenameTemplate)) return image.aiName;
+        return renderFilename(filenameTemplate, getTemplateContext(image, sequence)) || image.aiName;
+    };
+
+    const applyDetails = (id: string, details: ImageDetails) => {
+        setProcessedImages(prev => prev.map((img, index) => {
+            if (img.id !== id) return img;
+            // A cached result repeats candidates the image already has, unless it was re-uploaded.
+            const isRepeat = details.fromCache && img.nameHistory.length > 0;
+            const updated = {
+                ...img,
+                aiName: details.filename,
+                nameHistory: isRepeat ? img.nameHistory : [...img.nameHistory, { candidates: details.candidates, generatedAt: Date.now() }],
+                keywords: normalize(details.keywords).sort(),
+                flaggedKeywords: details.flaggedKeywords,
+                altText: details.altText,
+                description: details.description,
+                language: languageSettings.target,
+                keywordTranslations: details.keywordTranslations,
+                category: details.category || img.category,
+                fromCache: !!details.fromCache,
+                usage: details.usage ? addUsage(img.usage, toUsageTotals(details.usage, modelPrice)) : img.usage,
+                isLoading: false,
+            };
+            return { ...updated, suggestedName: applyTemplate(updated, index + 1) };
+        }));
+    };
+
+    // Applies a user edit to the queue and records it on the undo stack. Edits
+    // sharing a coalesce key in quick succession are undone together. The
+    // queue is read through a ref so changes made after an await see it as it
+    // is now, not as it was when the handler started.
+    const commitChange = (label: string, update: (images: ProcessedImage[]) => ProcessedImage[], coalesceKey?: string) => {
+        const current = processedImagesRef.current;
+        const entry = createEntry(label, current, update(current), coalesceKey);
+        if (!entry) return;
+        setProcessedImages(prev => redoEntry(prev, entry));
+        setHistory(prev => recordEntry(prev, entry));
+    };
+
+    const handleUndo = (steps = 1) => {
+        const entries = history.past.slice(-steps).reverse();
+        if (entries.length === 0) return;
+        // Removed images had their object URLs revoked, so they need new ones.
+        const revived = entries.map(entry => ({
+            ...entry,
+            removed: entry.removed.map(r => ({ ...r, image: { ...r.image, imageUrl: URL.createObjectURL(r.image.file), isLoading: false } })),
+        }));
+        setProcessedImages(prev => revived.reduce(undoEntry, prev));
+        setHistory(prev => ({
+            past: prev.past.slice(0, -entries.length),
+            future: [...[...revived].reverse(), ...prev.future],
+        }));
+    };
+
+    const handleRedo = (steps = 1) => {
+        const entries = history.future.slice(0, steps);
+        if (entries.length === 0) return;
+        const removedIds = new Set(entries.flatMap(entry => entry.removed.map(r => r.image.id)));
+        processedImages.filter(img => removedIds.has(img.id)).forEach(img => URL.revokeObjectURL(img.imageUrl));
+        batchQueueRef.current?.remove(img => removedIds.has(img.id));
+        setProcessedImages(prev => entries.reduce(redoEntry, prev));
+        setHistory(prev => ({
+            past: [...prev.past, ...entries],
+            future: prev.future.slice(entries.length),
+        }));
+    };
+
+    const undoRedoRef = useRef({ undo: handleUndo, redo: handleRedo });
+    undoRedoRef.current = { undo: handleUndo, redo: handleRedo };
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+            // Leave text fields to the browser's own undo.
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undoRedoRef.current.undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                undoRedoRef.current.redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
     }, []);
 
-    const handleGenerateNameForImage = async (id: string) => {
+    // A new AI name only helps when the template puts it in the filename.
+    const aiCollisionBlocker = usesAiName(filenameTemplate)
+        ? null
+        : "Ask AI is off because the filename template has no {ai} token, so a new AI name would not change the filenames. Add {ai} to the template or use another strategy.";
+
+    const handleResolveCollisions = async (strategy: CollisionStrategy) => {
+        if (strategy === 'ai' && aiCollisionBlocker) return;
+        if (strategy !== 'ai') {
+            const renamed = resolveCollisions(processedImages, strategy);
+            commitChange(`Resolve ${Object.keys(renamed).length} duplicate names`, images => images.map(img =>
+                renamed[img.id] ? { ...img, suggestedName: renamed[img.id] } : img
+            ));
+            return;
+        }
+
+        setIsResolvingCollisions(true);
+        let failures = 0;
+        const results = new Map<string, { details: ImageDetails; requestedFor: string }>();
+        for (const group of nameCollisions) {
+            const usedNames = group.map(img => img.aiName).filter(Boolean);
+            for (const image of group.slice(1)) {
+                try {
+                    const details = await retryTransient(() => generateImageDetails(image.file, { ...getGenerationOptions(image), avoidNames: usedNames }));
+                    usedNames.push(details.filename);
+                    results.set(image.id, { details, requestedFor: image.suggestedName });
+                } catch (err) {
+                    console.error(`Failed to get an alternative name for ${image.file.name}:`, err);
+                    failures++;
+                }
+            }
+        }
+        // Names edited while the requests ran are left as the reviewer set them.
+        const isUnchanged = (img: ProcessedImage) => results.get(img.id)?.requestedFor === img.suggestedName;
+        const count = processedImagesRef.current.filter(isUnchanged).length;
+        // Keep the reviewed keywords; only the name is replaced.
+        commitChange(`Resolve ${count} duplicate names with AI`, images => images.map((img, index) => {
+            const result = results.get(img.id);
+            if (!result || !isUnchanged(img)) return img;
+            const { details } = result;
+            const updated = {
+                ...img,
+                aiName: details.filename,
+                nameHistory: [...img.nameHistory, { candidates: details.candidates, generatedAt: Date.now() }],
+                usage: details.usage ? addUsage(img.usage, toUsageTotals(details.usage, modelPrice)) : img.usage,
+            };
+            return { ...updated, suggestedName: applyTemplate(updated, index + 1) };
+        }));
+        setIsResolvingCollisions(false);
+        if (failures > 0) {
+            window.alert(`The AI could not suggest a new name for ${failures} images. Try again or use another strategy.`);
+        }
+    };
+
+    const handleCopyNamesToDuplicates = () => {
+        const copied = copyLeaderDetails(processedImages, duplicates);
+        commitChange(`Copy names to ${Object.keys(copied).length} duplicates`, images => images.map((img, index) => {
+            if (!copied[img.id]) return img;
+            const updated = { ...img, ...copied[img.id], error: null };
+            return { ...updated, suggestedName: applyTemplate(updated, index + 1) };
+        }));
+    };
+
+    const handleRemoveExactDuplicates = () => {
+        const exactIds = new Set([...duplicates].filter(([, info]) => info.isExact).map(([id]) => id));
+        batchQueueRef.current?.remove(img => exactIds.has(img.id));
+        commitChange(`Remove ${exactIds.size} exact duplicates`, images => images.filter(img => !exactIds.has(img.id)));
+        processedImages.filter(img => exactIds.has(img.id)).forEach(img => URL.revokeObjectURL(img.imageUrl));
+    };
+
+    const handleApplyTemplateToAll = () => {
+        commitChange(`Apply template to ${successfulImages.length} images`, images => images.map((img, index) =>
+            img.aiName ? { ...img, suggestedName: applyTemplate(img, index + 1) } : img
+        ));
+    };
+
+    const applyError = (id: string, err: unknown) => {
+        console.error(`Failed to name image ${id}:`, err);
+        const error = toImageError(err);
+        setProcessedImages(prev => prev.map(img => 
+            img.id === id ? { ...img, isLoading: false, error } : img
+        ));
+    };
+
+    const getGenerationOptions = (image: ProcessedImage): GenerationOptions => ({
+        wordLimit,
+        userKeywords: [...userKeywordList, ...vocabularyKeywords].join(', '),
+        keywordSynonyms: listVocabularySynonyms(vocabulary.terms),
+        unmatchedKeywords,
+        ...(agencyId !== 'none' && {
+            keywordCount: agencyProfile.keywords,
+            descriptionMaxLength: agencyProfile.descriptionMaxLength,
+            categories: agencyProfile.categories,
+        }),
+        providerSettings,
+        metadata: useMetadataInPrompt ? image.metadata : null,
+        resize: resizeSettings,
+        language: languageSettings.target,
+        keywordVariants: languageSettings.keywordVariants,
+        candidateCount,
+        profile: getActiveProfile(promptProfiles),
+    });
+
+    // `force` bypasses the response cache.
+    const handleGenerateNameForImage = async (id: string, force = false) => {
         const imageToProcess = processedImages.find(img => img.id === id);
         if (!imageToProcess) return;
 
@@ -74,49 +540,202 @@ const App: React.FC = () => {
             img.id === id ? { ...img, isLoading: true, error: null } : img
         ));
 
+        // Regenerating asks for names that differ from every earlier suggestion.
+        const previousNames = [...new Set(imageToProcess.nameHistory.flatMap(gen => gen.candidates.map(c => c.filename)))];
         try {
-            const details = await generateImageDetails(imageToProcess.file, wordLimit, userKeywords);
-            setProcessedImages(prev => prev.map(img => 
-                img.id === id ? { ...img, suggestedName: details.filename, keywords: details.keywords.sort(), isLoading: false } : img
+            // Rate limits and outages are retried here too; the batch queue does its own retrying.
+            const details = await retryTransient(() => generateWithCache(
+                imageToProcess.file,
+                { ...getGenerationOptions(imageToProcess), avoidNames: previousNames },
+                { contentHash: imageToProcess.contentHash, force }
             ));
+            applyDetails(id, details);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-            setProcessedImages(prev => prev.map(img => 
-                img.id === id ? { ...img, isLoading: false, error: errorMessage } : img
-            ));
+            applyError(id, err);
         }
     };
 
+    const isSkippedDuplicate = (image: ProcessedImage) => skipDuplicates && duplicates.get(image.id)?.isLeader === false;
+
     const handleGenerateAllNames = async () => {
-        const imagesToProcess = processedImages.filter(image => !image.suggestedName && !image.isLoading);
-
-        for (const image of imagesToProcess) {
-            // The `handleGenerateNameForImage` function internally checks if the image still exists
-            // before making an API call, which prevents errors if the user removes an image
-            // during the batch process.
-            await handleGenerateNameForImage(image.id);
-            // Add a delay to avoid hitting API rate limits.
-            await new Promise(resolve => setTimeout(resolve, 1100));
+        const pendingImages = processedImages.filter(image => !image.suggestedName && !image.isLoading && !isSkippedDuplicate(image));
+        if (pendingImages.length === 0) return;
+        if (budget !== null && totalUsage.cost >= budget) {
+            window.alert(`This session has already used its ${formatCost(budget)} budget. Raise the budget to keep generating.`);
+            return;
         }
+
+        // Cached results are applied straight away; only the rest go through the rate-limited queue.
+        const cachedDetails = await Promise.all(pendingImages.map(async image =>
+            readCachedDetails(await getResponseCacheKey(image.file, getGenerationOptions(image), image.contentHash))
+        ));
+        pendingImages.forEach((image, i) => {
+            const details = cachedDetails[i];
+            if (details) applyDetails(image.id, details);
+        });
+        const imagesToProcess = pendingImages.filter((_, i) => !cachedDetails[i]);
+        if (imagesToProcess.length === 0) return;
+
+        setBatchTransfer({ originalBytes: 0, uploadBytes: 0 });
+        setBatchUsage(EMPTY_USAGE);
+        setIsOverBudget(false);
+        // Spending so far, including earlier batches; checked against the budget after each image.
+        let spent = totalUsage.cost;
+        const queue = createBatchQueue<ProcessedImage, ImageDetails>({
+            concurrency,
+            requestsPerMinute,
+            isRetryable: isTransientError,
+            getRetryDelay,
+            // The cache was already checked above; results are still stored.
+            run: (image) => generateWithCache(image.file, getGenerationOptions(image), { contentHash: image.contentHash, force: true }),
+            onStart: (image) => setProcessedImages(prev => prev.map(img =>
+                img.id === image.id ? { ...img, isLoading: true, error: null } : img
+            )),
+            onSuccess: (image, details) => {
+                applyDetails(image.id, details);
+                if (batchQueueRef.current === queue) {
+                    setBatchTransfer(prev => ({
+                        originalBytes: prev.originalBytes + image.file.size,
+                        uploadBytes: prev.uploadBytes + details.uploadBytes,
+                    }));
+                }
+                if (!details.usage) return;
+                const usage = toUsageTotals(details.usage, modelPrice);
+                spent += usage.cost;
+                if (batchQueueRef.current === queue) setBatchUsage(prev => addUsage(prev, usage));
+                // Requests already in flight still finish; no new ones are started.
+                if (budget !== null && spent >= budget) {
+                    queue.pause();
+                    setIsOverBudget(true);
+                }
+            },
+            onError: (image, err) => applyError(image.id, err),
+            // Includes items handed back while waiting out a backoff, which were already marked as loading.
+            onCancel: (skipped) => {
+                const skippedIds = new Set(skipped.map(image => image.id));
+                setProcessedImages(prev => prev.map(img =>
+                    skippedIds.has(img.id) ? { ...img, isLoading: false } : img
+                ));
+            },
+            // Ignore late updates from a batch that was discarded by Clear All.
+            onProgress: (progress) => {
+                if (batchQueueRef.current === queue) setBatchProgress(progress);
+            },
+        });
+
+        batchQueueRef.current = queue;
+        try {
+            await queue.start(imagesToProcess);
+        } finally {
+            if (batchQueueRef.current === queue) batchQueueRef.current = null;
+        }
+    };
+
+    const handlePauseBatch = () => batchQueueRef.current?.pause();
+    const handleResumeBatch = () => {
+        if (budget !== null && totalUsage.cost >= budget) {
+            window.alert(`This session has used ${formatCost(totalUsage.cost)} of its ${formatCost(budget)} budget. Raise the budget to resume.`);
+            return;
+        }
+        setIsOverBudget(false);
+        batchQueueRef.current?.resume();
     };
+
+    const handleBudgetChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const value = e.target.valueAsNumber;
+        setBudget(!isNaN(value) && value > 0 ? value : null);
+    };
+    const handleCancelBatch = () => batchQueueRef.current?.cancel();
     
+    const replaceSession = (next: SessionRecord, images: ProcessedImage[]) => {
+        processedImages.forEach(image => URL.revokeObjectURL(image.imageUrl));
+        batchQueueRef.current?.cancel();
+        batchQueueRef.current = null;
+        setBatchProgress(EMPTY_BATCH_PROGRESS);
+        setEditingImage(null);
+        setSession(next);
+        setUserKeywords(next.userKeywords);
+        setWordLimit(next.wordLimit);
+        setProcessedImages(images);
+        setHistory(EMPTY_HISTORY);
+    };
+
+    const handleSwitchSession = async (id: string) => {
+        setRestoreCandidate(null);
+        await persistSession();
+        try {
+            const loaded = await loadSession(id);
+            if (!loaded) return;
+            replaceSession(loaded.session, loaded.images);
+            setActiveSessionId(id);
+            // Sessions saved before hashing existed have no hashes yet.
+            analyzeImages(loaded.images.filter(img => !img.contentHash));
+        } catch (error) {
+            console.error("Failed to load session:", error);
+        }
+        await refreshSavedSessions();
+    };
+
+    const handleNewSession = async () => {
+        setRestoreCandidate(null);
+        await persistSession();
+        replaceSession(newSession(), []);
+        await refreshSavedSessions();
+    };
+
+    const handleDeleteSession = async () => {
+        if (!window.confirm(`Delete the session "${session.name}" and all of its images from this browser?`)) {
+            return;
+        }
+        try {
+            await deleteSession(session.id);
+        } catch (error) {
+            console.error("Failed to delete session:", error);
+        }
+        replaceSession(newSession(), []);
+        await refreshSavedSessions();
+    };
+
     const handleClearAll = () => {
+        batchQueueRef.current?.cancel();
+        batchQueueRef.current = null;
+        setBatchProgress(EMPTY_BATCH_PROGRESS);
+        commitChange(`Clear ${processedImages.length} images`, () => []);
         processedImages.forEach(image => URL.revokeObjectURL(image.imageUrl));
-        setProcessedImages([]);
     };
 
     const handleRemoveImage = (id: string) => {
         const imageToRemove = processedImages.find(img => img.id === id);
-        if(imageToRemove) {
-            URL.revokeObjectURL(imageToRemove.imageUrl);
-        }
-        setProcessedImages(prev => prev.filter(img => img.id !== id));
+        if (!imageToRemove) return;
+        batchQueueRef.current?.remove(img => img.id === id);
+        commitChange(`Remove ${imageToRemove.file.name}`, images => images.filter(img => img.id !== id));
+        URL.revokeObjectURL(imageToRemove.imageUrl);
     };
     
     const handleNameChange = (id: string, newName: string) => {
-        setProcessedImages(prev => prev.map(img =>
+        commitChange('Edit name', images => images.map(img =>
             img.id === id ? { ...img, suggestedName: newName } : img
-        ));
+        ), `name:${id}`);
+    };
+
+    const handleSelectName = (id: string, name: string) => {
+        commitChange(`Choose "${name}"`, images => images.map((img, index) => {
+            if (img.id !== id) return img;
+            const updated = { ...img, aiName: name };
+            return { ...updated, suggestedName: applyTemplate(updated, index + 1) };
+        }));
+    };
+
+    const handleAltTextChange = (id: string, altText: string) => {
+        commitChange('Edit alt text', images => images.map(img =>
+            img.id === id ? { ...img, altText } : img
+        ), `altText:${id}`);
+    };
+
+    const handleDescriptionChange = (id: string, description: string) => {
+        commitChange('Edit description', images => images.map(img =>
+            img.id === id ? { ...img, description } : img
+        ), `description:${id}`);
     };
 
     const handleWordLimitChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -125,11 +744,32 @@ const App: React.FC = () => {
             setWordLimit(value);
         }
     };
+
+    const handleCandidateCountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const value = e.target.valueAsNumber;
+        if (!isNaN(value) && value > 0 && value <= MAX_NAME_CANDIDATES) {
+            setCandidateCount(value);
+        }
+    };
+
+    const handleConcurrencyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const value = e.target.valueAsNumber;
+        if (!isNaN(value) && value > 0) {
+            setConcurrency(value);
+        }
+    };
+
+    const handleRequestsPerMinuteChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const value = e.target.valueAsNumber;
+        if (!isNaN(value) && value > 0) {
+            setRequestsPerMinute(value);
+        }
+    };
     
     const handleAddKeywords = (id: string, keywordsToAdd: string[]) => {
-        setProcessedImages(prev => prev.map(img => {
+        commitChange(`Add "${keywordsToAdd.join(', ')}"`, images => images.map(img => {
             if (img.id === id) {
-                const newKeywords = keywordsToAdd.filter(k => !img.keywords.includes(k));
+                const newKeywords = normalize(keywordsToAdd).filter(k => !img.keywords.includes(k));
                 if (newKeywords.length > 0) {
                     const updatedKeywords = [...img.keywords, ...newKeywords].sort();
                     return { ...img, keywords: updatedKeywords };
@@ -142,14 +782,10 @@ const App: React.FC = () => {
     const handleAddKeywordsToAll = (keywordsToAdd: string[]) => {
         if (keywordsToAdd.length === 0 || successfulImages.length === 0) return;
 
-        if (!window.confirm(`Are you sure you want to add "${keywordsToAdd.join(', ')}" to ${successfulImages.length} renamed images? This action cannot be undone.`)) {
-            return;
-        }
-
-        setProcessedImages(prev => prev.map(img => {
+        commitChange(`Add "${keywordsToAdd.join(', ')}" to ${successfulImages.length} images`, images => images.map(img => {
             // Only add keywords to images that have been successfully processed
             if (img.suggestedName) {
-                const newKeywords = keywordsToAdd.filter(k => !img.keywords.includes(k));
+                const newKeywords = normalize(keywordsToAdd).filter(k => !img.keywords.includes(k));
                 if (newKeywords.length > 0) {
                     const updatedKeywords = [...img.keywords, ...newKeywords].sort();
                     return { ...img, keywords: updatedKeywords };
@@ -160,7 +796,7 @@ const App: React.FC = () => {
     };
 
     const handleRemoveKeyword = (id: string, keywordToRemove: string) => {
-        setProcessedImages(prev => prev.map(img => {
+        commitChange(`Remove "${keywordToRemove}"`, images => images.map(img => {
             if (img.id === id) {
                 const updatedKeywords = img.keywords.filter(k => k !== keywordToRemove);
                 return { ...img, keywords: updatedKeywords };
@@ -169,6 +805,26 @@ const App: React.FC = () => {
         }));
     };
 
+    const handleAcceptFlaggedKeyword = (id: string, keyword: string) => {
+        commitChange(`Accept "${keyword}"`, images => images.map(img => {
+            if (img.id !== id) return img;
+            const keywords = [...new Set([...img.keywords, ...normalize([keyword])])].sort();
+            return { ...img, keywords, flaggedKeywords: img.flaggedKeywords.filter(k => k !== keyword) };
+        }));
+    };
+
+    const handleCategoryChange = (id: string, category: string) => {
+        commitChange(`Set category to "${category}"`, images => images.map(img =>
+            img.id === id ? { ...img, category } : img
+        ));
+    };
+
+    const handleRejectFlaggedKeyword = (id: string, keyword: string) => {
+        commitChange(`Reject "${keyword}"`, images => images.map(img =>
+            img.id === id ? { ...img, flaggedKeywords: img.flaggedKeywords.filter(k => k !== keyword) } : img
+        ));
+    };
+
     const handleOpenTagEditor = (imageToEdit: ProcessedImage) => {
         setEditingImage(imageToEdit);
     };
@@ -178,54 +834,43 @@ const App: React.FC = () => {
     };
 
 
-    const handleDownloadAll = async () => {
-        if (successfulImages.length === 0) return;
-
-        setIsZipping(true);
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
         try {
-            const zip = new JSZip();
-            successfulImages.forEach(image => {
-                const newFilename = `${image.suggestedName}${image.originalExtension}`;
-                zip.file(newFilename, image.file);
-            });
+            const rows = parseImportFile(file.name, await file.text());
+            setPendingImport({ fileName: file.name, preview: previewImport(processedImages, rows) });
+        } catch (error) {
+            console.error("Failed to read import file:", error);
+            window.alert(`Could not import ${file.name}: ${error instanceof Error ? error.message : 'unreadable file'}`);
+        }
+    };
 
-            const zipBlob = await zip.generateAsync({ type: 'blob' });
-            const link = document.createElement('a');
-            link.href = URL.createObjectURL(zipBlob);
-            link.download = `renamed-images-${Date.now()}.zip`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-            URL.revokeObjectURL(link.href);
-        } catch(error) {
-            console.error("Failed to create zip file:", error);
-        } finally {
-            setIsZipping(false);
+    const handleApplyImport = (matches: ImportMatch[]) => {
+        if (pendingImport && matches.length > 0) {
+            commitChange(`Import ${matches.length} changes from ${pendingImport.fileName}`, images => applyImport(images, matches));
         }
+        setPendingImport(null);
     };
 
-    const handleDownloadCsv = () => {
-        if (successfulImages.length === 0) return;
+    const handleCloseImport = useCallback(() => setPendingImport(null), []);
 
-        const sortedData = [...successfulImages].sort((a, b) => 
-            a.suggestedName.localeCompare(b.suggestedName)
-        );
+    const handleCloseExport = useCallback(() => setIsExportOpen(false), []);
 
-        const header = 'New File Name,Keywords\n';
-        const rows = sortedData.map(image => {
-            const newName = `"${image.suggestedName}${image.originalExtension}"`;
-            const keywords = `"${image.keywords.join(', ')}"`;
-            return `${newName},${keywords}`;
-        });
+    const handleExport = async () => {
+        if (successfulImages.length === 0 || nameCollisions.length > 0) return;
 
-        const csvContent = header + rows.join('\n');
-        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-        const link = document.createElement('a');
-        link.href = URL.createObjectURL(blob);
-        link.download = `image_keywords_${Date.now()}.csv`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        setIsExporting(true);
+        try {
+            const { filename, blob } = await createExport(successfulImages, activeExportSettings, agencyId);
+            downloadBlob(blob, filename);
+            setIsExportOpen(false);
+        } catch (error) {
+            console.error("Failed to export:", error);
+        } finally {
+            setIsExporting(false);
+        }
     };
 
     const handleCopyList = useCallback(() => {
@@ -243,9 +888,14 @@ const App: React.FC = () => {
     }, [listCopied]);
 
 
-    const imagesToProcessCount = processedImages.filter(img => !img.suggestedName && !img.isLoading).length;
+    const imagesToProcessCount = processedImages.filter(img => !img.suggestedName && !img.isLoading && !isSkippedDuplicate(img)).length;
+    const duplicateInfos = [...duplicates.values()];
+    const duplicateGroupCount = duplicateInfos.filter(info => info.isLeader).length;
+    const canCopyNamesToDuplicates = duplicateInfos.some(info => info.isLeader && processedImages.some(img => img.id === info.leaderId && img.aiName));
     const successfulCount = successfulImages.length;
-    const isProcessing = processedImages.some(img => img.isLoading);
+    const hasCollisions = nameCollisions.length > 0;
+    const isBatchActive = batchProgress.status === 'running' || batchProgress.status === 'paused' || batchProgress.status === 'cancelling';
+    const isProcessing = isBatchActive || processedImages.some(img => img.isLoading);
     const imageBeingEdited = processedImages.find(img => img.id === editingImage?.id) ?? null;
 
     return (
@@ -263,7 +913,33 @@ const App: React.FC = () => {
 
                     <main className="w-full">
                         <div className="max-w-3xl mx-auto">
+                            {restoreCandidate && (
+                                <RestoreSessionPrompt
+                                    session={restoreCandidate}
+                                    onRestore={() => handleSwitchSession(restoreCandidate.id)}
+                                    onDismiss={() => setRestoreCandidate(null)}
+                                />
+                            )}
                             <ImageUploader onImageUpload={handleImageUpload} />
+                            <div className="mt-6">
+                                <ProviderSettingsPanel settings={providerSettings} onChange={setProviderSettings} />
+                                <ResizeSettingsPanel settings={resizeSettings} onChange={setResizeSettings} />
+                                <PromptProfilePanel settings={promptProfiles} onChange={setPromptProfiles} />
+                                <ResponseCachePanel />
+                                <SessionBar
+                                    sessionId={session.id}
+                                    sessionName={session.name}
+                                    sessions={savedSessions}
+                                    disabled={isBatchActive}
+                                    onRename={(name) => setSession(prev => ({ ...prev, name }))}
+                                    onSwitch={handleSwitchSession}
+                                    onNew={handleNewSession}
+                                    onDelete={handleDeleteSession}
+                                />
+                                {(history.past.length > 0 || history.future.length > 0) && (
+                                    <HistoryPanel history={history} onUndo={handleUndo} onRedo={handleRedo} />
+                                )}
+                            </div>
                         </div>
                         
                         {processedImages.length > 0 && (
@@ -284,13 +960,46 @@ const App: React.FC = () => {
                                     <p className="text-sm text-gray-400 mt-2">
                                         Enter comma-separated keywords. The AI will select the most relevant tags for each image from this list. If left empty, AI will generate keywords automatically.
                                     </p>
+                                    <div className="flex items-center gap-2 mt-3 text-sm text-gray-300">
+                                        <label htmlFor="unmatched-keywords" className="font-medium">Keywords not in your list:</label>
+                                        <select
+                                            id="unmatched-keywords"
+                                            value={unmatchedKeywords}
+                                            onChange={(e) => setUnmatchedKeywords(e.target.value as UnmatchedKeywordPolicy)}
+                                            className="bg-gray-900 border-gray-600 rounded-md shadow-sm py-1 pl-2 pr-8 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm text-gray-200"
+                                        >
+                                            <option value="flag">Flag for review</option>
+                                            <option value="drop">Drop</option>
+                                        </select>
+                                    </div>
+                                    <label className="flex items-center gap-2 mt-3 text-sm text-gray-300 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={useMetadataInPrompt}
+                                            onChange={(e) => setUseMetadataInPrompt(e.target.checked)}
+                                            className="h-4 w-4 rounded bg-gray-800 border-gray-500 text-cyan-600 focus:ring-cyan-500 cursor-pointer"
+                                        />
+                                        Use photo metadata (capture date, camera, GPS location, existing keywords) when naming
+                                    </label>
+                                    <LanguageSelector settings={languageSettings} onChange={setLanguageSettings} />
+                                    <AgencySelector agencyId={agencyId} onChange={setAgencyId} invalidCount={agencyInvalidCount} />
+                                    <VocabularyPanel vocabulary={vocabulary} onChange={setVocabulary} />
                                 </div>
 
 
                                 <div className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4 flex-wrap">
-                                    <h2 className="text-2xl font-semibold text-white">
-                                        Image Queue ({processedImages.length})
-                                    </h2>
+                                    <div>
+                                        <h2 className="text-2xl font-semibold text-white">
+                                            Image Queue ({processedImages.length})
+                                        </h2>
+                                        {totalUsage.requests > 0 && (
+                                            <p className="text-sm text-gray-400" title={describeUsage(totalUsage)}>
+                                                {totalTokens(totalUsage).toLocaleString()} tokens, ~{formatCost(totalUsage.cost)}
+                                                {budget !== null && ` of ${formatCost(budget)} budget`}
+                                                {totalUsage.unpricedRequests > 0 && ' (some unpriced)'}
+                                            </p>
+                                        )}
+                                    </div>
                                     <div className="flex gap-4 items-center flex-wrap justify-center">
                                         <div className="flex items-center gap-2">
                                             <label htmlFor="word-limit" className="text-sm font-medium text-gray-300">Word Limit:</label>
@@ -304,22 +1013,75 @@ const App: React.FC = () => {
                                                 className="w-20 bg-gray-800 border-gray-600 rounded-md shadow-sm pl-3 pr-1 py-1.5 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm"
                                             />
                                         </div>
+                                        <div className="flex items-center gap-2">
+                                            <label htmlFor="candidate-count" className="text-sm font-medium text-gray-300">Suggestions:</label>
+                                            <input 
+                                                type="number" 
+                                                id="candidate-count"
+                                                value={candidateCount}
+                                                onChange={handleCandidateCountChange}
+                                                min="1"
+                                                max={MAX_NAME_CANDIDATES}
+                                                className="w-16 bg-gray-800 border-gray-600 rounded-md shadow-sm pl-3 pr-1 py-1.5 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm"
+                                            />
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <label htmlFor="concurrency" className="text-sm font-medium text-gray-300">Parallel:</label>
+                                            <input 
+                                                type="number" 
+                                                id="concurrency"
+                                                value={concurrency}
+                                                onChange={handleConcurrencyChange}
+                                                disabled={isBatchActive}
+                                                min="1"
+                                                max="10"
+                                                className="w-16 bg-gray-800 border-gray-600 rounded-md shadow-sm pl-3 pr-1 py-1.5 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm disabled:opacity-50"
+                                            />
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <label htmlFor="requests-per-minute" className="text-sm font-medium text-gray-300">Requests/min:</label>
+                                            <input 
+                                                type="number" 
+                                                id="requests-per-minute"
+                                                value={requestsPerMinute}
+                                                onChange={handleRequestsPerMinuteChange}
+                                                disabled={isBatchActive}
+                                                min="1"
+                                                max="1000"
+                                                className="w-20 bg-gray-800 border-gray-600 rounded-md shadow-sm pl-3 pr-1 py-1.5 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm disabled:opacity-50"
+                                            />
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <label htmlFor="budget" className="text-sm font-medium text-gray-300">Budget ($):</label>
+                                            <input
+                                                type="number"
+                                                id="budget"
+                                                value={budget ?? ''}
+                                                onChange={handleBudgetChange}
+                                                min="0"
+                                                step="0.01"
+                                                placeholder="None"
+                                                title={modelPrice ? 'Generate All pauses once the estimated cost of this session reaches the budget' : 'No price is known for this model, so its cost is not counted'}
+                                                className="w-24 bg-gray-800 border-gray-600 rounded-md shadow-sm pl-3 pr-1 py-1.5 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm"
+                                            />
+                                        </div>
                                         <div className="flex gap-2">
-                                             <button
-                                                onClick={handleDownloadCsv}
-                                                disabled={successfulCount === 0}
-                                                className="flex items-center justify-center px-4 py-2.5 border border-transparent text-base font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500"
+                                            <input ref={importInputRef} type="file" accept=".csv,.json,text/csv,application/json" onChange={handleImportFile} className="hidden" />
+                                            <button
+                                                onClick={() => importInputRef.current?.click()}
+                                                className="flex items-center justify-center px-4 py-2.5 border border-gray-600 text-base font-medium rounded-md text-gray-300 hover:bg-gray-800 hover:border-gray-500 transition-colors"
+                                                title="Apply names and keywords from an edited CSV or JSON export"
                                             >
                                                 <DocumentTextIcon className="w-5 h-5 mr-2" />
-                                                Download CSV
+                                                Import...
                                             </button>
                                             <button
-                                                onClick={handleDownloadAll}
-                                                disabled={successfulCount === 0 || isZipping}
+                                                onClick={() => setIsExportOpen(true)}
+                                                disabled={successfulCount === 0 || hasCollisions}
                                                 className="flex items-center justify-center px-4 py-2.5 border border-transparent text-base font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-green-500"
                                             >
                                                 <DownloadIcon className="w-5 h-5 mr-2" />
-                                                {isZipping ? 'Zipping...' : `Download All (${successfulCount})`}
+                                                {`Export (${successfulCount})...`}
                                             </button>
                                             <button
                                                 onClick={handleGenerateAllNames}
@@ -339,6 +1101,49 @@ const App: React.FC = () => {
                                     </div>
                                 </div>
 
+                                <FilenameTemplateEditor
+                                    template={filenameTemplate}
+                                    previewContext={templatePreviewContext}
+                                    onChange={setFilenameTemplate}
+                                    onApplyToAll={handleApplyTemplateToAll}
+                                    canApply={successfulCount > 0}
+                                />
+
+                                {hasCollisions && (
+                                    <CollisionWarning
+                                        groupCount={nameCollisions.length}
+                                        imageCount={collidingIds.size}
+                                        isResolving={isResolvingCollisions}
+                                        aiUnavailableReason={aiCollisionBlocker}
+                                        onResolve={handleResolveCollisions}
+                                    />
+                                )}
+
+                                {duplicateGroupCount > 0 && (
+                                    <DuplicatePanel
+                                        groupCount={duplicateGroupCount}
+                                        duplicateCount={duplicateInfos.length - duplicateGroupCount}
+                                        exactCount={duplicateInfos.filter(info => info.isExact).length}
+                                        skipDuplicates={skipDuplicates}
+                                        canCopyNames={canCopyNamesToDuplicates && !isProcessing}
+                                        onSkipDuplicatesChange={setSkipDuplicates}
+                                        onCopyNames={handleCopyNamesToDuplicates}
+                                        onRemoveExact={handleRemoveExactDuplicates}
+                                    />
+                                )}
+
+                                {batchProgress.status !== 'idle' && (
+                                    <BatchProgressBar
+                                        progress={batchProgress}
+                                        transfer={batchTransfer}
+                                        usage={batchUsage}
+                                        isOverBudget={isOverBudget}
+                                        onPause={handlePauseBatch}
+                                        onResume={handleResumeBatch}
+                                        onCancel={handleCancelBatch}
+                                    />
+                                )}
+
                                 {successfulCount > 0 && (
                                     <div className="bg-gray-800/50 rounded-lg p-4 mb-6">
                                         <div className="flex justify-between items-center mb-2">
@@ -378,7 +1183,7 @@ const App: React.FC = () => {
                                     </div>
                                 )}
 
-                                {successfulCount > 0 && allUniqueKeywords.length > 0 && (
+                                {successfulCount > 0 && (allUniqueKeywords.length > 0 || vocabularyKeywords.length > 0) && (
                                     <div className="bg-gray-800/50 rounded-lg p-4 mb-6">
                                         <h3 className="text-lg font-medium text-gray-200 mb-3 flex items-center">
                                             <TagIcon className="w-5 h-5 mr-2" />
@@ -386,6 +1191,7 @@ const App: React.FC = () => {
                                         </h3>
                                         <GlobalKeywordAdder
                                             allKeywords={allUniqueKeywords}
+                                            vocabulary={vocabulary.terms}
                                             onAdd={handleAddKeywordsToAll}
                                             disabled={successfulCount === 0}
                                         />
@@ -396,18 +1202,42 @@ const App: React.FC = () => {
                                 )}
 
 
-                                <div className="space-y-4">
-                                    {processedImages.map((image) => (
-                                        <ImageItem
-                                            key={image.id}
-                                            image={image}
-                                            onNameChange={(newName) => handleNameChange(image.id, newName)}
-                                            onRemove={() => handleRemoveImage(image.id)}
-                                            onRetry={() => handleGenerateNameForImage(image.id)}
-                                            onEditTags={() => handleOpenTagEditor(image)}
-                                            onRemoveKeyword={(keyword) => handleRemoveKeyword(image.id, keyword)}
-                                            isProcessing={isProcessing}
-                                        />
+                                <div className="space-y-6">
+                                    {folderGroups.map(group => (
+                                        <section key={group.folder} className="space-y-4">
+                                            {showFolders && (
+                                                <h3 className="flex items-center text-lg font-medium text-gray-300">
+                                                    <FolderIcon className="w-5 h-5 mr-2 text-gray-400" />
+                                                    {group.folder || 'Loose files'}
+                                                    <span className="ml-2 text-sm text-gray-500">({group.images.length})</span>
+                                                </h3>
+                                            )}
+                                            {group.images.map((image) => (
+                                                <ImageItem
+                                                    key={image.id}
+                                                    image={image}
+                                                    duplicate={duplicates.get(image.id) ?? null}
+                                                    isSkipped={isSkippedDuplicate(image)}
+                                                    onNameChange={(newName) => handleNameChange(image.id, newName)}
+                                                    onSelectName={(name) => handleSelectName(image.id, name)}
+                                                    onAltTextChange={(altText) => handleAltTextChange(image.id, altText)}
+                                                    onDescriptionChange={(description) => handleDescriptionChange(image.id, description)}
+                                                    onRemove={() => handleRemoveImage(image.id)}
+                                                    onRetry={() => handleGenerateNameForImage(image.id)}
+                                                    onForceRegenerate={() => handleGenerateNameForImage(image.id, true)}
+                                                    onEditTags={() => handleOpenTagEditor(image)}
+                                                    onRemoveKeyword={(keyword) => handleRemoveKeyword(image.id, keyword)}
+                                                    onAcceptFlaggedKeyword={(keyword) => handleAcceptFlaggedKeyword(image.id, keyword)}
+                                                    onRejectFlaggedKeyword={(keyword) => handleRejectFlaggedKeyword(image.id, keyword)}
+                                                    agencyIssues={agencyIssues.get(image.id) ?? []}
+                                                    categories={agencyProfile.categories}
+                                                    onCategoryChange={(category) => handleCategoryChange(image.id, category)}
+                                                    isProcessing={isProcessing}
+                                                    embedMetadata={exportSettings.embedMetadata}
+                                                    hasNameCollision={collidingIds.has(image.id)}
+                                                />
+                                            ))}
+                                        </section>
                                     ))}
                                 </div>
                             </div>
@@ -415,18 +1245,43 @@ const App: React.FC = () => {
                     </main>
                     
                     <footer className="text-center mt-12 text-gray-500 text-sm">
-                        <p>Powered by Google Gemini. Designed by a World-Class Senior Frontend Engineer.</p>
+                        <p>Powered by Google Gemini and other vision models. Designed by a World-Class Senior Frontend Engineer.</p>
                     </footer>
                 </div>
             </div>
 
+            {pendingImport && (
+                <ImportPreviewDialog
+                    fileName={pendingImport.fileName}
+                    preview={pendingImport.preview}
+                    images={processedImages}
+                    onApply={handleApplyImport}
+                    onClose={handleCloseImport}
+                />
+            )}
+
+            {isExportOpen && (
+                <ExportDialog
+                    settings={activeExportSettings}
+                    imageCount={successfulCount}
+                    isExporting={isExporting}
+                    agencyLabel={agencyId === 'none' ? null : agencyProfile.label}
+                    onChange={setExportSettings}
+                    onExport={handleExport}
+                    onClose={handleCloseExport}
+                />
+            )}
+
             {imageBeingEdited && (
                 <TagEditorModal
                     image={imageBeingEdited}
                     userDefinedKeywords={userKeywordList}
+                    vocabulary={vocabulary.terms}
                     onClose={handleCloseTagEditor}
                     onAddKeywords={(keywords) => handleAddKeywords(imageBeingEdited.id, keywords)}
                     onRemoveKeyword={(keyword) => handleRemoveKeyword(imageBeingEdited.id, keyword)}
+                    onAltTextChange={(altText) => handleAltTextChange(imageBeingEdited.id, altText)}
+                    onDescriptionChange={(description) => handleDescriptionChange(imageBeingEdited.id, description)}
                 />
             )}
         </>
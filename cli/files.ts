@@ -0,0 +1,44 @@
+
+import { readdir, readFile } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+
+const IMAGE_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.webp': 'image/webp',
+    '.gif': 'image/gif',
+};
+
+export const isImagePath = (path: string) => !!IMAGE_TYPES[extname(path).toLowerCase()];
+
+// Image files in a directory, sorted by name, optionally including subfolders.
+export async function listImages(directory: string, recursive: boolean): Promise<string[]> {
+    const entries = await readdir(directory, { withFileTypes: true });
+    const files: string[] = [];
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const path = join(directory, entry.name);
+        if (entry.isDirectory() && recursive) {
+            files.push(...await listImages(path, recursive));
+        } else if (entry.isFile() && isImagePath(entry.name)) {
+            files.push(path);
+        }
+    }
+    return files;
+}
+
+// Loads a file from disk as a browser-style File, which the shared services expect.
+export async function readImageFile(path: string): Promise<File> {
+    return new File([await readFile(path)], basename(path), { type: IMAGE_TYPES[extname(path).toLowerCase()] });
+}
+
+// Picks "<name><ext>", or "<name>-2<ext>" and so on when another file in the
+// target folder already has that name. Compared case-insensitively because
+// Windows and macOS file systems are.
+export function uniqueFilename(name: string, extension: string, taken: Set<string>, current?: string): string {
+    for (let n = 1; ; n++) {
+        const candidate = `${n === 1 ? name : `${name}-${n}`}${extension}`;
+        const key = candidate.toLowerCase();
+        if (!taken.has(key) || key === current?.toLowerCase()) return candidate;
+    }
+}
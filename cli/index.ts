@@ -0,0 +1,154 @@
+
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { parseProfilesFile, PRESET_PROFILES, type PromptProfile } from '../services/promptProfiles';
+import { DEFAULT_PROVIDER_SETTINGS, getProvider, providers, type ProviderId, type ProviderSettings } from '../services/providers';
+import { renameDirectory } from './rename';
+import { revertFromLog } from './revert';
+import { watchDirectory } from './watch';
+
+const USAGE = `Usage:
+  ai-renamer [rename] <directory> [options]   Rename the images in a directory
+  ai-renamer revert <undo-log> [--dry-run]    Undo an earlier run
+  ai-renamer watch <directory> --out <dir>    Name new images as they arrive
+
+Options:
+  --provider <id>       ${Object.keys(providers).join(', ')} (default: gemini)
+  --model <name>        Model to use instead of the provider's default
+  --base-url <url>      Server address for the openai and ollama providers
+  --word-limit <n>      Maximum words per filename (default: 10)
+  --keywords <list>     Comma-separated keywords to use where they fit
+  --profile <name>      Naming style: ${PRESET_PROFILES.map(profile => profile.style).join(', ')} (default: evocative),
+                        or a prompt profiles file exported from the app
+  --recursive           Include images in subfolders
+  --out <directory>     Copy renamed files here instead of renaming in place
+  --dry-run             Show the new names without changing anything
+  --undo-log <file>     Where to write the undo log
+  --interval <seconds>  How often watch mode looks for new files (default: 5)
+  --state <file>        Watch mode's record of processed files
+                        (default: .ai-renamer-watch.json in the output directory)
+  -h, --help            Show this help
+
+API keys are read from GEMINI_API_KEY (or API_KEY) and OPENAI_API_KEY.`;
+
+function buildProviderSettings(provider: string, model?: string, baseUrl?: string): ProviderSettings {
+    if (!(provider in providers)) {
+        throw new Error(`Unknown provider "${provider}". Choose one of: ${Object.keys(providers).join(', ')}.`);
+    }
+    const settings: ProviderSettings = {
+        providerId: provider as ProviderId,
+        gemini: { ...DEFAULT_PROVIDER_SETTINGS.gemini, apiKey: process.env.GEMINI_API_KEY ?? process.env.API_KEY ?? '' },
+        openai: { ...DEFAULT_PROVIDER_SETTINGS.openai, apiKey: process.env.OPENAI_API_KEY ?? '' },
+        ollama: { ...DEFAULT_PROVIDER_SETTINGS.ollama },
+    };
+    if (settings.providerId !== 'mock') {
+        const current = settings[settings.providerId];
+        if (model) current.model = model;
+        if (baseUrl && 'baseUrl' in current) current.baseUrl = baseUrl;
+    }
+    return settings;
+}
+
+async function loadProfile(value: string): Promise<PromptProfile> {
+    const preset = PRESET_PROFILES.find(profile => profile.style === value);
+    if (preset) return preset;
+    const text = await readFile(value, 'utf8').catch(() => {
+        throw new Error(`"${value}" is neither a naming style (${PRESET_PROFILES.map(profile => profile.style).join(', ')}) nor a readable profiles file.`);
+    });
+    // A shared file may hold several profiles; the first is used.
+    return parseProfilesFile(text)[0];
+}
+
+async function main(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            provider: { type: 'string', default: 'gemini' },
+            model: { type: 'string' },
+            'base-url': { type: 'string' },
+            'word-limit': { type: 'string', default: '10' },
+            keywords: { type: 'string', default: '' },
+            profile: { type: 'string', default: 'evocative' },
+            recursive: { type: 'boolean', default: false },
+            out: { type: 'string' },
+            'dry-run': { type: 'boolean', default: false },
+            'undo-log': { type: 'string' },
+            interval: { type: 'string', default: '5' },
+            state: { type: 'string' },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    const [command, ...rest] = ['rename', 'revert', 'watch'].includes(positionals[0]) ? positionals : ['rename', ...positionals];
+    if (values.help || rest.length !== 1) {
+        console.log(USAGE);
+        return values.help ? 0 : 1;
+    }
+    const log = (line: string) => console.log(line);
+
+    if (command === 'revert') {
+        const summary = await revertFromLog(rest[0], values['dry-run'], log);
+        console.log(`${values['dry-run'] ? 'Would revert' : 'Reverted'} ${summary.reverted}, skipped ${summary.skipped}.`);
+        return summary.skipped > 0 ? 1 : 0;
+    }
+
+    const wordLimit = Number(values['word-limit']);
+    if (!Number.isInteger(wordLimit) || wordLimit < 1) {
+        throw new Error(`--word-limit must be a positive whole number, got "${values['word-limit']}".`);
+    }
+    const providerSettings = buildProviderSettings(values.provider, values.model, values['base-url']);
+    const problem = getProvider(providerSettings).validate(providerSettings);
+    if (problem) throw new Error(problem);
+    const profile = await loadProfile(values.profile);
+
+    if (command === 'watch') {
+        const interval = Number(values.interval);
+        if (!values.out) throw new Error("Watch mode needs an output directory (--out).");
+        if (!(interval > 0)) throw new Error(`--interval must be a positive number of seconds, got "${values.interval}".`);
+        const controller = new AbortController();
+        process.once('SIGINT', () => {
+            console.log('Stopping after the current file...');
+            controller.abort();
+        });
+        await watchDirectory({
+            directory: rest[0],
+            outDir: values.out,
+            recursive: values.recursive,
+            intervalMs: interval * 1000,
+            wordLimit,
+            userKeywords: values.keywords,
+            providerSettings,
+            profile,
+            statePath: values.state,
+        }, controller.signal, log);
+        return 0;
+    }
+
+    const summary = await renameDirectory({
+        directory: rest[0],
+        outDir: values.out,
+        recursive: values.recursive,
+        dryRun: values['dry-run'],
+        wordLimit,
+        userKeywords: values.keywords,
+        providerSettings,
+        profile,
+        undoLogPath: values['undo-log'],
+    }, log);
+
+    const verb = values['dry-run'] ? 'Would rename' : values.out ? 'Copied' : 'Renamed';
+    console.log(`${verb} ${summary.renamed}, unchanged ${summary.unchanged}, failed ${summary.failed}.`);
+    if (summary.undoLogPath) {
+        console.log(`Undo with: ai-renamer revert ${summary.undoLogPath}`);
+    }
+    return summary.failed > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+    code => { process.exitCode = code; },
+    error => {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exitCode = 1;
+    },
+);
@@ -0,0 +1,115 @@
+
+import { constants } from 'node:fs';
+import { copyFile, mkdir, readdir, rename } from 'node:fs/promises';
+import { basename, dirname, extname, join, relative, resolve } from 'node:path';
+import { describeError, retryTransient } from '../services/aiErrors';
+import { generateImageDetails } from '../services/geminiService';
+import { readImageMetadata } from '../services/metadataReader';
+import type { PromptProfile } from '../services/promptProfiles';
+import type { ProviderSettings } from '../services/providers';
+import { listImages, readImageFile, uniqueFilename } from './files';
+import { writeUndoLog, type UndoLog } from './undoLog';
+
+export interface RenameOptions {
+    directory: string;
+    // Copy renamed files here, keeping subfolders, instead of renaming in place.
+    outDir?: string;
+    recursive: boolean;
+    dryRun: boolean;
+    wordLimit: number;
+    userKeywords: string;
+    providerSettings: ProviderSettings;
+    profile: PromptProfile;
+    // Where to write the undo log; defaults to a timestamped file in the target directory.
+    undoLogPath?: string;
+}
+
+export interface RenameSummary {
+    renamed: number;
+    unchanged: number;
+    failed: number;
+    undoLogPath: string | null;
+}
+
+export async function renameDirectory(options: RenameOptions, log: (line: string) => void): Promise<RenameSummary> {
+    const root = resolve(options.directory);
+    const outRoot = options.outDir ? resolve(options.outDir) : null;
+    const sources = await listImages(root, options.recursive);
+    const summary: RenameSummary = { renamed: 0, unchanged: 0, failed: 0, undoLogPath: null };
+    const undoLog: UndoLog = { version: 1, createdAt: new Date().toISOString(), mode: outRoot ? 'copy' : 'rename', entries: [] };
+    // Lowercased filenames already used in each target folder.
+    const takenByFolder = new Map<string, Set<string>>();
+    // Names chosen so far in each target folder, passed to the model to avoid repeats.
+    const chosenByFolder = new Map<string, string[]>();
+
+    const takenIn = async (folder: string) => {
+        if (!takenByFolder.has(folder)) {
+            const existing = await readdir(folder).catch(() => [] as string[]);
+            takenByFolder.set(folder, new Set(existing.map(name => name.toLowerCase())));
+        }
+        return takenByFolder.get(folder)!;
+    };
+
+    if (sources.length === 0) {
+        log(`No images found in ${root}.`);
+        return summary;
+    }
+
+    try {
+        for (const source of sources) {
+            const relativePath = relative(root, source);
+            const extension = extname(source);
+            try {
+                const file = await readImageFile(source);
+                const targetFolder = outRoot ? join(outRoot, dirname(relativePath)) : dirname(source);
+                const taken = await takenIn(targetFolder);
+                const chosen = chosenByFolder.get(targetFolder) ?? [];
+                const metadata = await readImageMetadata(file);
+                const details = await retryTransient(() => generateImageDetails(file, {
+                    wordLimit: options.wordLimit,
+                    userKeywords: options.userKeywords,
+                    providerSettings: options.providerSettings,
+                    profile: options.profile,
+                    metadata,
+                    avoidNames: chosen,
+                }));
+
+                const filename = uniqueFilename(details.filename, extension, taken, outRoot ? undefined : basename(source));
+                const target = join(targetFolder, filename);
+                taken.add(filename.toLowerCase());
+                chosenByFolder.set(targetFolder, [...chosen, details.filename]);
+
+                if (target === source) {
+                    summary.unchanged++;
+                    log(`${relativePath} (unchanged)`);
+                    continue;
+                }
+                log(`${relativePath} -> ${relative(outRoot ?? root, target)}${details.keywords.length > 0 ? `  [${details.keywords.join(', ')}]` : ''}`);
+                if (options.dryRun) {
+                    summary.renamed++;
+                    continue;
+                }
+
+                if (outRoot) {
+                    await mkdir(targetFolder, { recursive: true });
+                    await copyFile(source, target, constants.COPYFILE_EXCL);
+                } else {
+                    await rename(source, target);
+                }
+                undoLog.entries.push({ from: source, to: target });
+                summary.renamed++;
+            } catch (error) {
+                summary.failed++;
+                log(`${relativePath} failed: ${describeError(error)}`);
+            }
+        }
+    } finally {
+        // Written even after a crash part-way through, so whatever was renamed can be reverted.
+        if (!options.dryRun && undoLog.entries.length > 0) {
+            const undoLogPath = resolve(options.undoLogPath ?? join(outRoot ?? root, `ai-renamer-undo-${Date.now()}.json`));
+            await writeUndoLog(undoLogPath, undoLog);
+            summary.undoLogPath = undoLogPath;
+        }
+    }
+    return summary;
+}
@@ -0,0 +1,42 @@
+
+import { access, rename, unlink } from 'node:fs/promises';
+import { readUndoLog } from './undoLog';
+
+export interface RevertSummary {
+    reverted: number;
+    skipped: number;
+}
+
+const exists = (path: string) => access(path).then(() => true, () => false);
+
+// Undoes a run recorded in an undo log: renamed files get their old names back
+// and copies are deleted. Entries are undone newest first, and files that were
+// moved or recreated since are left alone.
+export async function revertFromLog(logPath: string, dryRun: boolean, log: (line: string) => void): Promise<RevertSummary> {
+    const undoLog = await readUndoLog(logPath);
+    const summary: RevertSummary = { reverted: 0, skipped: 0 };
+
+    for (const { from, to } of [...undoLog.entries].reverse()) {
+        if (!await exists(to)) {
+            summary.skipped++;
+            log(`${to} no longer exists, skipped`);
+            continue;
+        }
+        if (undoLog.mode === 'rename' && await exists(from)) {
+            summary.skipped++;
+            log(`${from} already exists, left ${to} in place`);
+            continue;
+        }
+
+        log(undoLog.mode === 'rename' ? `${to} -> ${from}` : `delete ${to}`);
+        if (!dryRun) {
+            if (undoLog.mode === 'rename') {
+                await rename(to, from);
+            } else {
+                await unlink(to);
+            }
+        }
+        summary.reverted++;
+    }
+    return summary;
+}
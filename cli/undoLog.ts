@@ -0,0 +1,28 @@
+
+import { readFile, writeFile } from 'node:fs/promises';
+
+export interface UndoEntry {
+    // Absolute paths before and after the operation.
+    from: string;
+    to: string;
+}
+
+export interface UndoLog {
+    version: 1;
+    createdAt: string;
+    // "rename" moved files in place; "copy" left the originals and wrote copies.
+    mode: 'rename' | 'copy';
+    entries: UndoEntry[];
+}
+
+export async function writeUndoLog(path: string, log: UndoLog): Promise<void> {
+    await writeFile(path, JSON.stringify(log, null, 2) + '\n', 'utf8');
+}
+
+export async function readUndoLog(path: string): Promise<UndoLog> {
+    const log = JSON.parse(await readFile(path, 'utf8')) as Partial<UndoLog>;
+    if (log.version !== 1 || (log.mode !== 'rename' && log.mode !== 'copy') || !Array.isArray(log.entries)) {
+        throw new Error(`${path} is not an ai-renamer undo log.`);
+    }
+    return log as UndoLog;
+}
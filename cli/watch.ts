@@ -0,0 +1,190 @@
+
+import { mkdir, readdir, readFile, rename, stat, writeFile } from 'node:fs/promises';
+import { dirname, extname, join, relative, resolve, sep } from 'node:path';
+import { describeError, retryTransient } from '../services/aiErrors';
+import { generateImageDetails } from '../services/geminiService';
+import { readImageMetadata } from '../services/metadataReader';
+import { embedMetadata, getMetadataFields } from '../services/metadataWriter';
+import type { PromptProfile } from '../services/promptProfiles';
+import type { ProviderSettings } from '../services/providers';
+import { buildXmpPacket } from '../utils/xmp';
+import { listImages, readImageFile, uniqueFilename } from './files';
+
+// Generation is retried on later scans until it has failed this many times.
+const MAX_ATTEMPTS = 3;
+
+export interface WatchOptions {
+    directory: string;
+    outDir: string;
+    recursive: boolean;
+    intervalMs: number;
+    wordLimit: number;
+    userKeywords: string;
+    providerSettings: ProviderSettings;
+    profile: PromptProfile;
+    // Defaults to ".ai-renamer-watch.json" in the output directory.
+    statePath?: string;
+}
+
+interface WatchedFile {
+    size: number;
+    mtimeMs: number;
+    // Path of the renamed copy relative to the output directory, or null when it failed.
+    output: string | null;
+    // Set from choosing the output path until the copy and sidecar are both
+    // written. A run stopped in between leaves it behind for the next one.
+    pending?: boolean;
+    error?: string;
+}
+
+interface WatchState {
+    version: 1;
+    // Keyed by path relative to the watched directory.
+    files: Record<string, WatchedFile>;
+}
+
+async function readState(path: string): Promise<WatchState> {
+    try {
+        const state = JSON.parse(await readFile(path, 'utf8')) as Partial<WatchState>;
+        if (state.version !== 1 || !state.files) throw new Error(`${path} is not an ai-renamer watch state file.`);
+        return state as WatchState;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { version: 1, files: {} };
+        throw error;
+    }
+}
+
+// Written to a temporary file first so a crash never leaves half a state file.
+async function writeState(path: string, state: WatchState): Promise<void> {
+    await writeFile(`${path}.tmp`, JSON.stringify(state, null, 2) + '\n', 'utf8');
+    await rename(`${path}.tmp`, path);
+}
+
+function sidecarPath(imagePath: string): string {
+    return imagePath.slice(0, imagePath.length - extname(imagePath).length) + '.xmp';
+}
+
+async function exists(path: string): Promise<boolean> {
+    return stat(path).then(() => true, () => false);
+}
+
+// Filenames in a folder without their extensions, lowercased, so an image and
+// its sidecar never clash with another image's.
+async function takenNames(folder: string): Promise<Set<string>> {
+    const existing = await readdir(folder).catch(() => [] as string[]);
+    return new Set(existing.map(name => name.slice(0, name.length - extname(name).length).toLowerCase()));
+}
+
+// Scans the directory every intervalMs and names each new image once it has
+// stopped changing between two scans, so files still being written by a
+// tethered camera are left alone. Each image is copied to the output folder
+// under its new name with the metadata embedded, next to an XMP sidecar.
+// Processed files are recorded in a state file, so a restart picks up where
+// the last run stopped. Runs until the signal is aborted.
+export async function watchDirectory(options: WatchOptions, signal: AbortSignal, log: (line: string) => void): Promise<void> {
+    const root = resolve(options.directory);
+    const outRoot = resolve(options.outDir);
+    const statePath = resolve(options.statePath ?? join(outRoot, '.ai-renamer-watch.json'));
+    await mkdir(outRoot, { recursive: true });
+    const state = await readState(statePath);
+    // Size and modification time seen on the previous scan, for files not yet processed.
+    const pending = new Map<string, { size: number; mtimeMs: number }>();
+    const attempts = new Map<string, number>();
+
+    // `reserved` is the output path recorded by a run that stopped while
+    // writing it, which is reused rather than taking the next free name.
+    const processFile = async (source: string, relativePath: string, size: number, mtimeMs: number, reserved?: string) => {
+        const file = await readImageFile(source);
+        const metadata = await readImageMetadata(file);
+        const details = await retryTransient(() => generateImageDetails(file, {
+            wordLimit: options.wordLimit,
+            userKeywords: options.userKeywords,
+            providerSettings: options.providerSettings,
+            profile: options.profile,
+            metadata,
+        }));
+
+        const targetFolder = reserved ? dirname(join(outRoot, reserved)) : join(outRoot, dirname(relativePath));
+        await mkdir(targetFolder, { recursive: true });
+        let target: string;
+        if (reserved) {
+            target = join(outRoot, reserved);
+        } else {
+            const name = uniqueFilename(details.filename, '', await takenNames(targetFolder));
+            target = join(targetFolder, `${name}${extname(source)}`);
+            // Recorded before writing, so a crash part way through can't lead to a second copy.
+            state.files[relativePath] = { size, mtimeMs, output: relative(outRoot, target), pending: true };
+            await writeState(statePath, state);
+        }
+        const fields = getMetadataFields({ aiName: details.filename, suggestedName: details.filename, ...details });
+        const image = await embedMetadata(file, fields);
+        // A reserved path may hold part of the earlier attempt's output, which is replaced.
+        const flag = reserved ? 'w' : 'wx';
+        await writeFile(target, new Uint8Array(await image.arrayBuffer()), { flag });
+        await writeFile(sidecarPath(target), buildXmpPacket(fields) + '\n', { flag });
+
+        state.files[relativePath] = { size, mtimeMs, output: relative(outRoot, target) };
+        log(`${relativePath} -> ${relative(outRoot, target)}`);
+    };
+
+    const scan = async () => {
+        const sources = await listImages(root, options.recursive).catch(error => {
+            log(`Could not read ${root}: ${error instanceof Error ? error.message : String(error)}`);
+            return [] as string[];
+        });
+        for (const source of sources) {
+            if (signal.aborted) return;
+            // The output folder may sit inside the watched one.
+            if (source.startsWith(outRoot + sep)) continue;
+            const relativePath = relative(root, source);
+            const { size, mtimeMs } = await stat(source).catch(() => ({ size: -1, mtimeMs: -1 }));
+            const done = state.files[relativePath];
+            if (size < 0) continue;
+            // The same path with a different size or date is a new photo, e.g. after a card reset.
+            const seen = done && done.size === size && done.mtimeMs === mtimeMs ? done : undefined;
+            if (seen && !seen.pending) continue;
+            // The sidecar is written last, so with both files in place the last run finished.
+            if (seen?.output && await exists(join(outRoot, seen.output)) && await exists(sidecarPath(join(outRoot, seen.output)))) {
+                state.files[relativePath] = { size, mtimeMs, output: seen.output };
+                await writeState(statePath, state);
+                log(`${relativePath} -> ${seen.output}`);
+                continue;
+            }
+
+            const previous = pending.get(relativePath);
+            if (!previous || previous.size !== size || previous.mtimeMs !== mtimeMs) {
+                pending.set(relativePath, { size, mtimeMs });
+                continue;
+            }
+            pending.delete(relativePath);
+
+            try {
+                await processFile(source, relativePath, size, mtimeMs, seen?.output ?? undefined);
+            } catch (error) {
+                const message = describeError(error);
+                const attempt = (attempts.get(relativePath) ?? 0) + 1;
+                attempts.set(relativePath, attempt);
+                if (attempt < MAX_ATTEMPTS) {
+                    log(`${relativePath} failed, will retry: ${message}`);
+                    continue;
+                }
+                state.files[relativePath] = { size, mtimeMs, output: null, error: message };
+                log(`${relativePath} failed ${MAX_ATTEMPTS} times, giving up: ${message}`);
+            }
+            attempts.delete(relativePath);
+            await writeState(statePath, state);
+        }
+    };
+
+    log(`Watching ${root} (every ${options.intervalMs / 1000}s), writing to ${outRoot}. Press Ctrl+C to stop.`);
+    while (!signal.aborted) {
+        await scan();
+        await new Promise<void>(resolveWait => {
+            const timer = setTimeout(resolveWait, options.intervalMs);
+            signal.addEventListener('abort', () => {
+                clearTimeout(timer);
+                resolveWait();
+            }, { once: true });
+        });
+    }
+}
@@ -0,0 +1,44 @@
+
+import React from 'react';
+import { AGENCY_IDS, AGENCY_PROFILES, type AgencyId } from '../services/agencyProfiles';
+
+interface AgencySelectorProps {
+    agencyId: AgencyId;
+    onChange: (agencyId: AgencyId) => void;
+    // Named images that break at least one of the agency's rules.
+    invalidCount: number;
+}
+
+export const AgencySelector: React.FC<AgencySelectorProps> = ({ agencyId, onChange, invalidCount }) => {
+    const profile = AGENCY_PROFILES[agencyId];
+
+    return (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-x-3 gap-y-1 mt-3 text-sm text-gray-300">
+            <div className="flex items-center gap-2">
+                <label htmlFor="agency-profile" className="font-medium">Stock agency:</label>
+                <select
+                    id="agency-profile"
+                    value={agencyId}
+                    onChange={(e) => onChange(e.target.value as AgencyId)}
+                    className="bg-gray-900 border-gray-600 rounded-md shadow-sm py-1 pl-2 pr-8 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm text-gray-200"
+                >
+                    {AGENCY_IDS.map(id => (
+                        <option key={id} value={id}>{AGENCY_PROFILES[id].label}</option>
+                    ))}
+                </select>
+            </div>
+            {agencyId !== 'none' && (
+                <span className="text-gray-400">
+                    {profile.keywords.min}–{profile.keywords.max} keywords
+                    {profile.descriptionMaxLength && `, description up to ${profile.descriptionMaxLength} characters`}
+                    {profile.categories.length > 0 && ', one category'}
+                    {invalidCount > 0 && (
+                        <span className="ml-2 text-red-400">
+                            {invalidCount} {invalidCount === 1 ? 'image needs' : 'images need'} fixing
+                        </span>
+                    )}
+                </span>
+            )}
+        </div>
+    );
+};
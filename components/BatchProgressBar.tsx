@@ -0,0 +1,99 @@
+
+import React from 'react';
+import type { BatchProgress } from '../services/batchQueue';
+import { describeUsage, formatCost, type UsageTotals } from '../services/usage';
+import { formatBytes } from '../utils/fileUtils';
+
+interface BatchProgressBarProps {
+    progress: BatchProgress;
+    // Sizes of the originals and of the copies sent for the images named so far.
+    transfer: { originalBytes: number; uploadBytes: number };
+    // Tokens and estimated cost of the requests made by this batch.
+    usage: UsageTotals;
+    // Paused because the session's spending reached the budget.
+    isOverBudget: boolean;
+    onPause: () => void;
+    onResume: () => void;
+    onCancel: () => void;
+}
+
+const STATUS_LABELS: Record<BatchProgress['status'], string> = {
+    idle: 'Idle',
+    running: 'Processing',
+    paused: 'Paused',
+    cancelling: 'Cancelling...',
+    cancelled: 'Cancelled',
+    completed: 'Completed',
+};
+
+export const BatchProgressBar: React.FC<BatchProgressBarProps> = ({ progress, transfer, usage, isOverBudget, onPause, onResume, onCancel }) => {
+    const { status, total, done, failed, remaining } = progress;
+    const isActive = status === 'running' || status === 'paused';
+    const percent = (value: number) => total > 0 ? `${(value / total) * 100}%` : '0%';
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 mb-6">
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3 mb-3">
+                <div className="text-sm text-gray-300">
+                    <span className="font-medium text-white">{STATUS_LABELS[status]}</span>
+                    {isOverBudget && status === 'paused' && <span className="ml-1 text-amber-400">(budget reached)</span>}
+                    <span className="mx-2 text-gray-600">|</span>
+                    <span className="text-green-400">{done} done</span>
+                    <span className="mx-2 text-gray-600">|</span>
+                    <span className="text-red-400">{failed} failed</span>
+                    <span className="mx-2 text-gray-600">|</span>
+                    <span>{remaining} remaining</span>
+                    {transfer.originalBytes > 0 && (
+                        <>
+                            <span className="mx-2 text-gray-600">|</span>
+                            <span title={`Sent ${formatBytes(transfer.uploadBytes)} instead of ${formatBytes(transfer.originalBytes)}`}>
+                                {formatBytes(Math.max(0, transfer.originalBytes - transfer.uploadBytes))} saved
+                            </span>
+                        </>
+                    )}
+                    {usage.requests > 0 && (
+                        <>
+                            <span className="mx-2 text-gray-600">|</span>
+                            <span title={describeUsage(usage)}>~{formatCost(usage.cost)}</span>
+                        </>
+                    )}
+                </div>
+                {isActive && (
+                    <div className="flex gap-2">
+                        {status === 'paused' ? (
+                            <button
+                                onClick={onResume}
+                                className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-cyan-600 hover:bg-cyan-700 transition-colors"
+                            >
+                                Resume
+                            </button>
+                        ) : (
+                            <button
+                                onClick={onPause}
+                                className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-gray-700 hover:bg-gray-600 transition-colors"
+                            >
+                                Pause
+                            </button>
+                        )}
+                        <button
+                            onClick={onCancel}
+                            className="px-3 py-1.5 text-sm font-medium rounded-md text-gray-300 border border-gray-600 hover:bg-gray-800 hover:border-gray-500 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                )}
+            </div>
+            <div
+                className="flex w-full h-2.5 rounded-full overflow-hidden bg-gray-700"
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={total}
+                aria-valuenow={done + failed}
+            >
+                <div className="bg-green-500 transition-all duration-300" style={{ width: percent(done) }} />
+                <div className="bg-red-500 transition-all duration-300" style={{ width: percent(failed) }} />
+            </div>
+        </div>
+    );
+};
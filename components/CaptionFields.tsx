@@ -0,0 +1,49 @@
+
+import React from 'react';
+import { ALT_TEXT_MAX_LENGTH } from '../services/geminiService';
+
+interface CaptionFieldsProps {
+    idPrefix: string;
+    altText: string;
+    description: string;
+    onAltTextChange: (altText: string) => void;
+    onDescriptionChange: (description: string) => void;
+}
+
+const inputClassName = "block w-full bg-gray-900 border-gray-600 rounded-md shadow-sm px-3 py-2 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm text-gray-200";
+
+export const CaptionFields: React.FC<CaptionFieldsProps> = ({ idPrefix, altText, description, onAltTextChange, onDescriptionChange }) => {
+    const isAltTextTooLong = altText.length > ALT_TEXT_MAX_LENGTH;
+
+    return (
+        <div className="space-y-2">
+            <div>
+                <div className="flex justify-between items-baseline mb-1">
+                    <label htmlFor={`${idPrefix}-alt-text`} className="text-xs font-medium text-gray-400">Alt text</label>
+                    <span className={`text-xs ${isAltTextTooLong ? 'text-amber-400' : 'text-gray-500'}`}>
+                        {altText.length}/{ALT_TEXT_MAX_LENGTH}
+                    </span>
+                </div>
+                <input
+                    id={`${idPrefix}-alt-text`}
+                    type="text"
+                    value={altText}
+                    onChange={(e) => onAltTextChange(e.target.value)}
+                    placeholder="Describe the image for screen readers"
+                    className={inputClassName}
+                />
+            </div>
+            <div>
+                <label htmlFor={`${idPrefix}-description`} className="block text-xs font-medium text-gray-400 mb-1">Description</label>
+                <textarea
+                    id={`${idPrefix}-description`}
+                    rows={2}
+                    value={description}
+                    onChange={(e) => onDescriptionChange(e.target.value)}
+                    placeholder="A one to two sentence caption"
+                    className={`${inputClassName} resize-y`}
+                />
+            </div>
+        </div>
+    );
+};
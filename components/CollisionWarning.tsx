@@ -0,0 +1,44 @@
+
+import React from 'react';
+import type { CollisionStrategy } from '../services/nameCollisions';
+import { ExclamationTriangleIcon } from './icons';
+
+interface CollisionWarningProps {
+    groupCount: number;
+    imageCount: number;
+    isResolving: boolean;
+    // Why "Ask AI" can't help right now, or null when it can.
+    aiUnavailableReason: string | null;
+    onResolve: (strategy: CollisionStrategy) => void;
+}
+
+const STRATEGIES: { strategy: CollisionStrategy; label: string; description: string }[] = [
+    { strategy: 'suffix', label: 'Add Numbers', description: 'Append -2, -3, ... to the duplicates' },
+    { strategy: 'keyword', label: 'Add a Keyword', description: 'Append a keyword that tells the images apart' },
+    { strategy: 'ai', label: 'Ask AI', description: 'Request a different name for each duplicate' },
+];
+
+export const CollisionWarning: React.FC<CollisionWarningProps> = ({ groupCount, imageCount, isResolving, aiUnavailableReason, onResolve }) => (
+    <div className="bg-amber-900/30 border border-amber-700 rounded-lg p-4 mb-6">
+        <div className="flex items-start gap-3 text-amber-200">
+            <ExclamationTriangleIcon className="w-5 h-5 mt-0.5 flex-shrink-0" />
+            <p>
+                {imageCount} images share {groupCount === 1 ? 'a filename' : `${groupCount} filenames`}. Exporting them would overwrite files, so downloads are disabled until every duplicate is renamed.
+            </p>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-3 sm:ml-8">
+            {STRATEGIES.map(({ strategy, label, description }) => (
+                <button
+                    key={strategy}
+                    onClick={() => onResolve(strategy)}
+                    disabled={isResolving || (strategy === 'ai' && !!aiUnavailableReason)}
+                    title={(strategy === 'ai' && aiUnavailableReason) || description}
+                    className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-amber-700 hover:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                    {isResolving && strategy === 'ai' ? 'Asking AI...' : label}
+                </button>
+            ))}
+        </div>
+        {aiUnavailableReason && <p className="text-xs text-amber-300/80 mt-2 sm:ml-8">{aiUnavailableReason}</p>}
+    </div>
+);
@@ -0,0 +1,62 @@
+
+import React from 'react';
+import { CopyIcon } from './icons';
+
+interface DuplicatePanelProps {
+    groupCount: number;
+    duplicateCount: number;
+    exactCount: number;
+    skipDuplicates: boolean;
+    canCopyNames: boolean;
+    onSkipDuplicatesChange: (skip: boolean) => void;
+    onCopyNames: () => void;
+    onRemoveExact: () => void;
+}
+
+export const DuplicatePanel: React.FC<DuplicatePanelProps> = ({
+    groupCount,
+    duplicateCount,
+    exactCount,
+    skipDuplicates,
+    canCopyNames,
+    onSkipDuplicatesChange,
+    onCopyNames,
+    onRemoveExact,
+}) => (
+    <div className="bg-gray-800/50 rounded-lg p-4 mb-6">
+        <div className="flex items-start gap-3 text-gray-300">
+            <CopyIcon className="w-5 h-5 mt-0.5 flex-shrink-0 text-cyan-400" />
+            <p>
+                Found {duplicateCount} {duplicateCount === 1 ? 'image that looks' : 'images that look'} like another image in the queue
+                ({exactCount} exact) across {groupCount} {groupCount === 1 ? 'group' : 'groups'}. Duplicates are listed under the first image of their group.
+            </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 mt-3 sm:ml-8">
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={skipDuplicates}
+                    onChange={(e) => onSkipDuplicatesChange(e.target.checked)}
+                    className="h-4 w-4 rounded bg-gray-800 border-gray-500 text-cyan-600 focus:ring-cyan-500 cursor-pointer"
+                />
+                Skip duplicates in Generate All
+            </label>
+            <button
+                onClick={onCopyNames}
+                disabled={!canCopyNames}
+                title="Give each duplicate the first image's name with a sequence number, plus its keywords"
+                className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+                Copy Names to Duplicates
+            </button>
+            {exactCount > 0 && (
+                <button
+                    onClick={onRemoveExact}
+                    className="px-3 py-1.5 text-sm font-medium rounded-md text-gray-300 border border-gray-600 hover:bg-gray-800 hover:border-gray-500 transition-colors"
+                >
+                    Remove Exact Duplicates ({exactCount})
+                </button>
+            )}
+        </div>
+    </div>
+);
@@ -0,0 +1,131 @@
+
+import React from 'react';
+import { CSV_COLUMNS, exporters, isSingleFileExport, type CsvColumnId, type ExporterId, type ExportSettings } from '../services/exporters';
+import { DownloadIcon, XCircleIcon } from './icons';
+
+interface ExportDialogProps {
+    settings: ExportSettings;
+    imageCount: number;
+    isExporting: boolean;
+    // Name of the selected stock agency; its CSV is only offered when set.
+    agencyLabel: string | null;
+    onChange: (settings: ExportSettings) => void;
+    onExport: () => void;
+    onClose: () => void;
+}
+
+const checkboxClassName = "h-4 w-4 mt-0.5 rounded bg-gray-900 border-gray-500 text-cyan-600 focus:ring-cyan-500 cursor-pointer";
+
+function toggle<T>(list: T[], item: T): T[] {
+    return list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ settings, imageCount, isExporting, agencyLabel, onChange, onExport, onClose }) => {
+    React.useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const update = (patch: Partial<ExportSettings>) => onChange({ ...settings, ...patch });
+    const isEmpty = !settings.includeImages && settings.formats.length === 0;
+    const isCsvEmpty = settings.formats.includes('csv') && settings.csvColumns.length === 0;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black bg-opacity-80 flex justify-center items-center z-50 p-4"
+            aria-modal="true"
+            role="dialog"
+            aria-labelledby="export-dialog-title"
+            onClick={onClose}
+        >
+            <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg max-h-[85vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center p-6 pb-4">
+                    <h2 id="export-dialog-title" className="text-xl font-bold text-white">Export {imageCount} Images</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors" aria-label="Close export dialog">
+                        <XCircleIcon className="w-8 h-8" />
+                    </button>
+                </div>
+
+                <div className="px-6 overflow-y-auto space-y-4">
+                    <label className="flex items-start gap-3 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={settings.includeImages}
+                            onChange={(e) => update({ includeImages: e.target.checked })}
+                            className={checkboxClassName}
+                        />
+                        <span>
+                            <span className="block text-sm font-medium text-gray-200">Renamed images</span>
+                            <span className="block text-xs text-gray-400">The original files under their new names.</span>
+                        </span>
+                    </label>
+                    {settings.includeImages && (
+                        <label className="flex items-start gap-3 ml-7 cursor-pointer" title="Write keywords and a title into JPEG, PNG and WebP files as IPTC/XMP">
+                            <input
+                                type="checkbox"
+                                checked={settings.embedMetadata}
+                                onChange={(e) => update({ embedMetadata: e.target.checked })}
+                                className={checkboxClassName}
+                            />
+                            <span className="text-sm text-gray-300">Embed metadata in the images</span>
+                        </label>
+                    )}
+
+                    {(Object.keys(exporters) as ExporterId[]).filter(id => id !== 'agency' || agencyLabel).map(id => (
+                        <div key={id}>
+                            <label className="flex items-start gap-3 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={settings.formats.includes(id)}
+                                    onChange={() => update({ formats: toggle(settings.formats, id) })}
+                                    className={checkboxClassName}
+                                />
+                                <span>
+                                    <span className="block text-sm font-medium text-gray-200">{id === 'agency' ? `${agencyLabel} CSV` : exporters[id].label}</span>
+                                    <span className="block text-xs text-gray-400">{exporters[id].description}</span>
+                                </span>
+                            </label>
+                            {id === 'csv' && settings.formats.includes('csv') && (
+                                <div className="ml-7 mt-2 grid grid-cols-2 gap-x-4 gap-y-1.5">
+                                    {(Object.keys(CSV_COLUMNS) as CsvColumnId[]).map(column => (
+                                        <label key={column} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={settings.csvColumns.includes(column)}
+                                                onChange={() => update({ csvColumns: toggle(settings.csvColumns, column) })}
+                                                className="h-4 w-4 rounded bg-gray-900 border-gray-500 text-cyan-600 focus:ring-cyan-500 cursor-pointer"
+                                            />
+                                            {CSV_COLUMNS[column]}
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                <div className="p-6 pt-4 mt-2 border-t border-gray-700 flex justify-end gap-2">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 hover:bg-gray-700 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={onExport}
+                        disabled={isEmpty || isCsvEmpty || isExporting}
+                        className="flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+                    >
+                        <DownloadIcon className="w-4 h-4 mr-2" />
+                        {isExporting ? 'Exporting...' : isSingleFileExport(settings) ? 'Download File' : 'Download ZIP'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,118 @@
+
+import React, { useState } from 'react';
+import {
+    BUILT_IN_TOKENS,
+    CASING_LABELS,
+    formatVariables,
+    parseVariables,
+    renderFilename,
+    validateTemplate,
+    type CasingStyle,
+    type FilenameTemplate,
+    type TemplateContext,
+} from '../services/filenameTemplate';
+import { DocumentTextIcon } from './icons';
+
+interface FilenameTemplateEditorProps {
+    template: FilenameTemplate;
+    previewContext: TemplateContext;
+    onChange: (template: FilenameTemplate) => void;
+    onApplyToAll: () => void;
+    canApply: boolean;
+}
+
+export const FilenameTemplateEditor: React.FC<FilenameTemplateEditorProps> = ({
+    template,
+    previewContext,
+    onChange,
+    onApplyToAll,
+    canApply
+}) => {
+    // Edited as text so half-typed lines aren't thrown away on every keystroke.
+    const [variablesText, setVariablesText] = useState(() => formatVariables(template.variables));
+
+    const handleVariablesChange = (text: string) => {
+        setVariablesText(text);
+        onChange({ ...template, variables: parseVariables(text) });
+    };
+
+    const error = validateTemplate(template);
+    const preview = error ? '' : renderFilename(template, previewContext);
+
+    const insertToken = (token: string) => {
+        onChange({ ...template, pattern: `${template.pattern}{${token}}` });
+    };
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 mb-6">
+            <label htmlFor="filename-template" className="flex items-center text-lg font-medium text-gray-200 mb-2">
+                <DocumentTextIcon className="w-5 h-5 mr-2" />
+                Filename Template
+            </label>
+            <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                    id="filename-template"
+                    type="text"
+                    value={template.pattern}
+                    onChange={(e) => onChange({ ...template, pattern: e.target.value })}
+                    className="flex-grow bg-gray-900 border-gray-600 rounded-md shadow-sm px-3 py-2 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm text-gray-200 font-mono"
+                    placeholder="{date:YYYY-MM-DD}_{ai}_{seq:000}"
+                />
+                <select
+                    value={template.casing}
+                    onChange={(e) => onChange({ ...template, casing: e.target.value as CasingStyle })}
+                    className="bg-gray-900 border-gray-600 rounded-md shadow-sm px-3 py-2 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm text-gray-200"
+                    aria-label="Casing"
+                >
+                    {Object.entries(CASING_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={onApplyToAll}
+                    disabled={!canApply || !!error}
+                    className="px-4 py-2 text-sm font-medium rounded-md text-white bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+                >
+                    Apply to All
+                </button>
+            </div>
+
+            <div className="flex flex-wrap gap-1.5 mt-3">
+                {[...BUILT_IN_TOKENS, ...Object.keys(template.variables)].map(token => (
+                    <button
+                        key={token}
+                        onClick={() => insertToken(token)}
+                        className="px-2 py-0.5 text-xs font-mono rounded-full bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+                    >
+                        {`{${token}}`}
+                    </button>
+                ))}
+            </div>
+
+            <div className="mt-3 text-sm">
+                {error ? (
+                    <p className="text-red-400">{error}</p>
+                ) : (
+                    <p className="text-gray-400">
+                        Preview: <span className="font-mono text-gray-200">{preview || '(empty)'}</span>
+                    </p>
+                )}
+            </div>
+
+            <label htmlFor="template-variables" className="block text-sm font-medium text-gray-300 mt-3 mb-1">
+                Custom variables (one <span className="font-mono">name=value</span> per line)
+            </label>
+            <textarea
+                id="template-variables"
+                rows={2}
+                value={variablesText}
+                onChange={(e) => handleVariablesChange(e.target.value)}
+                className="w-full bg-gray-900 border-gray-600 rounded-md shadow-sm p-3 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm text-gray-200 font-mono"
+                placeholder="client=Acme"
+            />
+            <p className="text-sm text-gray-400 mt-2">
+                New names are built from this template as soon as the AI responds. Use "Apply to All" to rebuild existing names; manual edits will be replaced.
+            </p>
+        </div>
+    );
+};
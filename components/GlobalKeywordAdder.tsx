@@ -1,14 +1,17 @@
 
 import React, { useState, useEffect, useRef } from 'react';
+import type { VocabularyTerm } from '../services/vocabulary';
 import { TagIcon } from './icons';
+import { VocabularyTree } from './VocabularyTree';
 
 interface GlobalKeywordAdderProps {
     allKeywords: string[];
+    vocabulary: VocabularyTerm[];
     onAdd: (keywords: string[]) => void;
     disabled?: boolean;
 }
 
-export const GlobalKeywordAdder: React.FC<GlobalKeywordAdderProps> = ({ allKeywords, onAdd, disabled = false }) => {
+export const GlobalKeywordAdder: React.FC<GlobalKeywordAdderProps> = ({ allKeywords, vocabulary, onAdd, disabled = false }) => {
     const [isOpen, setIsOpen] = useState(false);
     const [selectedKeywords, setSelectedKeywords] = useState<string[]>([]);
     const dropdownRef = useRef<HTMLDivElement>(null);
@@ -71,6 +74,13 @@ export const GlobalKeywordAdder: React.FC<GlobalKeywordAdderProps> = ({ allKeywo
                                 <span className="text-sm text-gray-200">{keyword}</span>
                             </label>
                         ))}
+                        {vocabulary.length > 0 && (
+                            <VocabularyTree
+                                terms={vocabulary}
+                                selectedKeywords={selectedKeywords}
+                                onToggle={handleCheckboxChange}
+                            />
+                        )}
                     </div>
                     <div className="p-2 border-t border-gray-600 bg-gray-800/50">
                         <button
@@ -0,0 +1,75 @@
+
+import React, { useState } from 'react';
+import type { HistoryState } from '../services/undoHistory';
+import { ClockIcon, RedoIcon, UndoIcon } from './icons';
+
+interface HistoryPanelProps {
+    history: HistoryState;
+    onUndo: (steps?: number) => void;
+    onRedo: (steps?: number) => void;
+}
+
+const buttonClassName = "flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md text-white bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onUndo, onRedo }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const { past, future } = history;
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 mb-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <button
+                    onClick={() => setIsOpen(prev => !prev)}
+                    className="flex items-center text-lg font-medium text-gray-200"
+                    aria-expanded={isOpen}
+                >
+                    <ClockIcon className="w-5 h-5 mr-2" />
+                    History
+                    <span className="ml-2 text-sm text-gray-400">({past.length})</span>
+                </button>
+                <div className="flex gap-2">
+                    <button onClick={() => onUndo()} disabled={past.length === 0} className={buttonClassName} title="Undo (Ctrl+Z)">
+                        <UndoIcon className="w-4 h-4" />
+                        Undo
+                    </button>
+                    <button onClick={() => onRedo()} disabled={future.length === 0} className={buttonClassName} title="Redo (Ctrl+Shift+Z)">
+                        <RedoIcon className="w-4 h-4" />
+                        Redo
+                    </button>
+                </div>
+            </div>
+
+            {isOpen && (
+                <ol className="mt-3 max-h-64 overflow-y-auto text-sm divide-y divide-gray-700/50">
+                    {[...future].reverse().map((entry, i) => (
+                        <li key={entry.id}>
+                            <button
+                                onClick={() => onRedo(future.length - i)}
+                                className="flex justify-between w-full px-2 py-1.5 text-left text-gray-500 line-through hover:bg-gray-700/50 rounded"
+                                title="Redo up to here"
+                            >
+                                <span className="truncate">{entry.label}</span>
+                                <span className="ml-3 flex-shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                            </button>
+                        </li>
+                    ))}
+                    {[...past].reverse().map((entry, i) => (
+                        <li key={entry.id}>
+                            <button
+                                onClick={() => onUndo(i + 1)}
+                                className="flex justify-between w-full px-2 py-1.5 text-left text-gray-300 hover:bg-gray-700/50 rounded"
+                                title="Undo back to before this change"
+                            >
+                                <span className="truncate">{entry.label}</span>
+                                <span className="ml-3 flex-shrink-0 text-gray-500">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                            </button>
+                        </li>
+                    ))}
+                    {past.length === 0 && future.length === 0 && (
+                        <li className="px-2 py-1.5 text-gray-500">No changes yet. Edits to names, keywords and the queue appear here.</li>
+                    )}
+                </ol>
+            )}
+        </div>
+    );
+};
@@ -1,29 +1,67 @@
 
 import React, { useState, useEffect } from 'react';
 import type { ProcessedImage } from '../App';
-import { CopyIcon, CheckIcon, XCircleIcon, RetryIcon, DownloadIcon, TagIcon, PencilIcon } from './icons';
+import { embedMetadata as embedMetadataInFile, getMetadataFields } from '../services/metadataWriter';
+import { hasMetadata } from '../services/metadataReader';
+import type { DuplicateInfo } from '../services/duplicateDetection';
+import { describeUsage, formatCost, totalTokens } from '../services/usage';
+import { CaptionFields } from './CaptionFields';
+import { NameCandidates } from './NameCandidates';
+import { CopyIcon, CheckIcon, XCircleIcon, RetryIcon, DownloadIcon, TagIcon, PencilIcon, CameraIcon, MapPinIcon, ExclamationTriangleIcon } from './icons';
 
 interface ImageItemProps {
     image: ProcessedImage;
     onNameChange: (name: string) => void;
+    // Picks one of the AI's candidate names.
+    onSelectName: (name: string) => void;
+    onAltTextChange: (altText: string) => void;
+    onDescriptionChange: (description: string) => void;
     onRemove: () => void;
     onRetry: () => void;
+    // Generates again without using the response cache.
+    onForceRegenerate: () => void;
     onEditTags: () => void;
     onRemoveKeyword: (keyword: string) => void;
+    // Review of AI keywords that aren't in the user's list.
+    onAcceptFlaggedKeyword: (keyword: string) => void;
+    onRejectFlaggedKeyword: (keyword: string) => void;
+    // Rules of the selected stock agency that this image breaks.
+    agencyIssues: string[];
+    // The agency's category list; empty when it has none.
+    categories: string[];
+    onCategoryChange: (category: string) => void;
     isProcessing: boolean;
+    embedMetadata: boolean;
+    hasNameCollision: boolean;
+    duplicate: DuplicateInfo | null;
+    // A duplicate that Generate All will leave out.
+    isSkipped: boolean;
 }
 
 export const ImageItem: React.FC<ImageItemProps> = ({ 
     image, 
     onNameChange, 
+    onSelectName,
+    onAltTextChange,
+    onDescriptionChange,
     onRemove, 
     onRetry,
+    onForceRegenerate,
     onEditTags,
     onRemoveKeyword,
-    isProcessing
+    onAcceptFlaggedKeyword,
+    onRejectFlaggedKeyword,
+    agencyIssues,
+    categories,
+    onCategoryChange,
+    isProcessing,
+    embedMetadata,
+    hasNameCollision,
+    duplicate,
+    isSkipped
 }) => {
     const [copied, setCopied] = useState(false);
-    const { id, imageUrl, file, isLoading, error, suggestedName, originalExtension, keywords } = image;
+    const { id, imageUrl, file, isLoading, error, aiName, nameHistory, suggestedName, originalExtension, keywords, flaggedKeywords, altText, description, category, metadata, fromCache, usage } = image;
 
     const handleCopy = () => {
         if (suggestedName && originalExtension) {
@@ -32,16 +70,22 @@ export const ImageItem: React.FC<ImageItemProps> = ({
         }
     };
 
-    const handleDownload = () => {
+    const handleDownload = async () => {
         if (!suggestedName || !originalExtension) return;
 
         const newFilename = `${suggestedName}${originalExtension}`;
+        const metadataUrl = embedMetadata
+            ? URL.createObjectURL(await embedMetadataInFile(file, getMetadataFields(image)))
+            : null;
         const link = document.createElement('a');
-        link.href = imageUrl;
+        link.href = metadataUrl ?? imageUrl;
         link.download = newFilename;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
+        if (metadataUrl) {
+            URL.revokeObjectURL(metadataUrl);
+        }
     };
 
     useEffect(() => {
@@ -51,6 +95,39 @@ export const ImageItem: React.FC<ImageItemProps> = ({
         }
     }, [copied]);
 
+    const renderMetadata = () => {
+        if (!hasMetadata(metadata)) return null;
+        const camera = [metadata.cameraMake, metadata.cameraModel].filter(Boolean).join(' ');
+        const details = [
+            metadata.captureDate ? new Date(metadata.captureDate).toLocaleString() : null,
+            camera || null,
+            metadata.lens ?? null,
+        ].filter(Boolean);
+
+        return (
+            <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500">
+                {details.length > 0 && (
+                    <span className="flex items-center gap-1">
+                        <CameraIcon className="w-3.5 h-3.5 flex-shrink-0" />
+                        {details.join(' · ')}
+                    </span>
+                )}
+                {metadata.gps && (
+                    <span className="flex items-center gap-1">
+                        <MapPinIcon className="w-3.5 h-3.5 flex-shrink-0" />
+                        {metadata.gps.latitude.toFixed(4)}, {metadata.gps.longitude.toFixed(4)}
+                    </span>
+                )}
+                {metadata.keywords.length > 0 && (
+                    <span className="flex items-center gap-1" title={metadata.keywords.join(', ')}>
+                        <TagIcon className="w-3.5 h-3.5 flex-shrink-0" />
+                        {metadata.keywords.length} embedded keywords
+                    </span>
+                )}
+            </div>
+        );
+    };
+
     const renderStatus = () => {
         if (isLoading) {
             return (
@@ -67,9 +144,12 @@ export const ImageItem: React.FC<ImageItemProps> = ({
         if (error) {
             return (
                 <div className="flex items-center gap-4">
-                    <div className="flex items-center gap-2 text-red-400">
-                        <XCircleIcon className="w-5 h-5 flex-shrink-0" />
-                        <span>{error}</span>
+                    <div className="flex items-start gap-2 text-red-400">
+                        <XCircleIcon className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                        <div>
+                            <span>{error.message}</span>
+                            {error.hint && <p className="text-xs text-gray-400 mt-0.5">{error.hint}</p>}
+                        </div>
                     </div>
                      <button
                         onClick={onRetry}
@@ -93,7 +173,7 @@ export const ImageItem: React.FC<ImageItemProps> = ({
                             type="text"
                             value={suggestedName}
                             onChange={(e) => onNameChange(e.target.value)}
-                            className="block w-full bg-gray-900 border-gray-600 rounded-md shadow-sm pl-3 pr-28 py-2.5 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm text-gray-200"
+                            className={`block w-full bg-gray-900 rounded-md shadow-sm pl-3 pr-28 py-2.5 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm text-gray-200 ${hasNameCollision ? 'border-amber-500' : 'border-gray-600'}`}
                         />
                         <div className="absolute inset-y-0 right-0 flex items-center pr-1.5">
                             <span className="text-gray-500 mr-2">{originalExtension}</span>
@@ -117,15 +197,64 @@ export const ImageItem: React.FC<ImageItemProps> = ({
                             </button>
                         </div>
                     </div>
+                    {hasNameCollision && (
+                        <p className="mt-1.5 flex items-center gap-1.5 text-xs font-medium text-amber-400">
+                            <ExclamationTriangleIcon className="w-4 h-4" />
+                            Duplicate name: another image in the queue will be exported with the same filename.
+                        </p>
+                    )}
+                    {fromCache && (
+                        <p className="mt-1.5 flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                            <span className="font-medium text-cyan-300 bg-cyan-900/40 px-2 py-0.5 rounded-full">Cached</span>
+                            Reused from an earlier identical request.
+                            <button
+                                onClick={onForceRegenerate}
+                                className="flex items-center gap-1 font-medium text-cyan-400 hover:text-cyan-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                                disabled={isProcessing}
+                            >
+                                <RetryIcon className="w-3.5 h-3.5" />
+                                Force regenerate
+                            </button>
+                        </p>
+                    )}
+                    {usage.requests > 0 && (
+                        <p className="mt-1.5 text-xs text-gray-500" title={describeUsage(usage)}>
+                            {totalTokens(usage).toLocaleString()} tokens, ~{formatCost(usage.cost)}
+                        </p>
+                    )}
+                    <NameCandidates
+                        history={nameHistory}
+                        selectedName={aiName}
+                        onSelect={onSelectName}
+                        onRegenerate={onRetry}
+                        isProcessing={isProcessing}
+                    />
                 </div>
             );
         }
 
+        if (isSkipped) {
+            return <div className="text-gray-500">Skipped as a duplicate.</div>;
+        }
+
         return <div className="text-gray-500">Waiting for generation...</div>;
     };
 
+    const renderDuplicateBadge = () => {
+        if (!duplicate) return null;
+        const label = duplicate.isLeader
+            ? `Has ${duplicate.groupSize - 1} ${duplicate.groupSize === 2 ? 'duplicate' : 'duplicates'}`
+            : duplicate.isExact ? 'Exact duplicate' : 'Near duplicate';
+        return (
+            <span className="flex items-center gap-1 mr-auto text-xs font-medium text-cyan-300 bg-cyan-900/40 px-2 py-0.5 rounded-full flex-shrink-0">
+                <CopyIcon className="w-3.5 h-3.5" />
+                {label}
+            </span>
+        );
+    };
+
     return (
-        <div className="bg-gray-800/50 rounded-lg p-4 flex items-start sm:items-center gap-4 w-full flex-col sm:flex-row">
+        <div className={`bg-gray-800/50 rounded-lg p-4 flex items-start sm:items-center gap-4 w-full flex-col sm:flex-row ${duplicate && !duplicate.isLeader ? 'sm:ml-8 sm:w-auto border-l-2 border-cyan-800' : ''}`}>
             <div className="flex-shrink-0">
                 <img 
                     src={imageUrl} 
@@ -134,10 +263,11 @@ export const ImageItem: React.FC<ImageItemProps> = ({
                 />
             </div>
             <div className="flex-grow min-w-0 w-full">
-                <div className="flex justify-between items-start">
-                    <p className="text-sm font-medium text-gray-300 truncate pr-2" title={file.name}>
+                <div className="flex justify-between items-start gap-2">
+                    <p className="text-sm font-medium text-gray-300 truncate" title={file.name}>
                         {file.name}
                     </p>
+                    {renderDuplicateBadge()}
                     <button
                         onClick={onRemove}
                         className="p-1 -mr-1 -mt-1 text-gray-500 hover:text-white transition-colors flex-shrink-0"
@@ -146,6 +276,7 @@ export const ImageItem: React.FC<ImageItemProps> = ({
                         <XCircleIcon className="w-6 h-6" />
                     </button>
                 </div>
+                {renderMetadata()}
                 <div className="mt-3">
                     {renderStatus()}
                 </div>
@@ -177,8 +308,69 @@ export const ImageItem: React.FC<ImageItemProps> = ({
                                 <PencilIcon className="w-4 h-4" />
                             </button>
                         </div>
+                        {flaggedKeywords.length > 0 && (
+                            <div className="flex flex-wrap gap-x-2 gap-y-1 items-center px-2 -ml-2">
+                                <span className="text-xs text-amber-300" title="The AI suggested these, but they are not in your keyword list.">Not in your list:</span>
+                                {flaggedKeywords.map(keyword => (
+                                    <span key={keyword} className="flex items-center bg-amber-900/40 border border-amber-700/60 text-amber-200 text-xs font-medium pl-2.5 pr-1 py-0.5 rounded-full">
+                                        {keyword}
+                                        <button
+                                            onClick={() => onAcceptFlaggedKeyword(keyword)}
+                                            className="ml-1.5 p-0.5 rounded-full text-amber-300 hover:bg-green-600/75 hover:text-white transition-colors"
+                                            aria-label={`Accept ${keyword} tag`}
+                                        >
+                                            <CheckIcon className="w-3 h-3" />
+                                        </button>
+                                        <button
+                                            onClick={() => onRejectFlaggedKeyword(keyword)}
+                                            className="p-0.5 rounded-full text-amber-300 hover:bg-red-500/75 hover:text-white transition-colors"
+                                            aria-label={`Reject ${keyword} tag`}
+                                        >
+                                            <XCircleIcon className="w-3 h-3" />
+                                        </button>
+                                    </span>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 )}
+                {suggestedName && (
+                    <div className="mt-1">
+                        <CaptionFields
+                            idPrefix={`image-${id}`}
+                            altText={altText}
+                            description={description}
+                            onAltTextChange={onAltTextChange}
+                            onDescriptionChange={onDescriptionChange}
+                        />
+                    </div>
+                )}
+                {suggestedName && categories.length > 0 && (
+                    <div className="flex items-center gap-2 mt-2 text-sm">
+                        <label htmlFor={`image-${id}-category`} className="text-gray-400">Category:</label>
+                        <select
+                            id={`image-${id}-category`}
+                            value={category}
+                            onChange={(e) => onCategoryChange(e.target.value)}
+                            className="bg-gray-900 border-gray-600 rounded-md shadow-sm py-1 pl-2 pr-8 focus:ring-cyan-500 focus:border-cyan-500 text-sm text-gray-200 min-w-0"
+                        >
+                            {!categories.includes(category) && <option value={category}>Choose...</option>}
+                            {categories.map(name => (
+                                <option key={name} value={name}>{name}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+                {agencyIssues.length > 0 && (
+                    <ul className="mt-2 space-y-0.5 text-sm text-red-400">
+                        {agencyIssues.map(issue => (
+                            <li key={issue} className="flex items-start gap-1.5">
+                                <ExclamationTriangleIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                {issue}
+                            </li>
+                        ))}
+                    </ul>
+                )}
             </div>
         </div>
     );
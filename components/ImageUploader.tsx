@@ -1,17 +1,24 @@
 
-import React, { useCallback, useState } from 'react';
-import { UploadIcon } from './icons';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { fromFileList, readDroppedFiles, type UploadedFile } from '../utils/directoryEntries';
+import { FolderIcon, UploadIcon } from './icons';
 
 interface ImageUploaderProps {
-    onImageUpload: (files: File[]) => void;
+    onImageUpload: (files: UploadedFile[]) => void;
 }
 
 export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload }) => {
     const [isDragging, setIsDragging] = useState(false);
+    const folderInputRef = useRef<HTMLInputElement>(null);
+
+    // React doesn't know the non-standard webkitdirectory attribute.
+    useEffect(() => {
+        folderInputRef.current?.setAttribute('webkitdirectory', '');
+    }, []);
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files.length > 0) {
-            onImageUpload(Array.from(e.target.files));
+            onImageUpload(fromFileList(e.target.files));
             // Reset file input to allow uploading the same file(s) again
             e.target.value = '';
         }
@@ -21,8 +28,10 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload }) =
         e.preventDefault();
         e.stopPropagation();
         setIsDragging(false);
-        if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-            onImageUpload(Array.from(e.dataTransfer.files));
+        if (e.dataTransfer.items.length > 0 || e.dataTransfer.files.length > 0) {
+            readDroppedFiles(e.dataTransfer)
+                .then(onImageUpload)
+                .catch(error => console.error("Failed to read dropped files:", error));
         }
     }, [onImageUpload]);
 
@@ -55,9 +64,25 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload }) =
             />
             <div className="flex flex-col items-center text-gray-400 pointer-events-none">
                 <UploadIcon className="w-12 h-12 mb-2" />
-                <p className="font-semibold text-gray-300">Click to upload or drag & drop</p>
+                <p className="font-semibold text-gray-300">Click to upload or drag & drop files or folders</p>
                 <p className="text-sm">PNG, JPG, GIF, WEBP</p>
             </div>
+            <button
+                type="button"
+                onClick={() => folderInputRef.current?.click()}
+                className="relative z-10 mt-3 flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 transition-colors"
+            >
+                <FolderIcon className="w-4 h-4" />
+                Choose a folder
+            </button>
+            <input
+                ref={folderInputRef}
+                type="file"
+                multiple
+                onChange={handleFileChange}
+                className="hidden"
+                aria-label="Folder uploader"
+            />
         </div>
     );
 };
@@ -0,0 +1,141 @@
+
+import React, { useState } from 'react';
+import type { ProcessedImage } from '../App';
+import type { FieldChange, ImportMatch, ImportPreview, MatchedBy } from '../services/batchImport';
+import { XCircleIcon } from './icons';
+
+interface ImportPreviewDialogProps {
+    fileName: string;
+    preview: ImportPreview;
+    images: ProcessedImage[];
+    onApply: (matches: ImportMatch[]) => void;
+    onClose: () => void;
+}
+
+const MATCHED_BY_LABELS: Record<MatchedBy, string> = {
+    contentHash: 'content hash',
+    originalName: 'original filename',
+    suggestedName: 'current name',
+};
+
+const TextChange: React.FC<{ label: string; change: FieldChange<string> }> = ({ label, change }) => (
+    <div className="text-sm">
+        <span className="text-gray-400">{label}: </span>
+        {change.before && <span className="text-red-300 line-through break-all">{change.before}</span>}
+        {change.before && ' → '}
+        <span className="text-green-300 break-all">{change.after || <em>empty</em>}</span>
+    </div>
+);
+
+const KeywordChange: React.FC<{ change: FieldChange<string[]> }> = ({ change }) => {
+    const added = change.after.filter(k => !change.before.includes(k));
+    const removed = change.before.filter(k => !change.after.includes(k));
+    return (
+        <div className="text-sm flex flex-wrap gap-1 items-center">
+            <span className="text-gray-400">Keywords:</span>
+            {removed.map(k => <span key={`-${k}`} className="px-2 py-0.5 rounded-full bg-red-900/40 text-red-300 text-xs line-through">{k}</span>)}
+            {added.map(k => <span key={`+${k}`} className="px-2 py-0.5 rounded-full bg-green-900/40 text-green-300 text-xs">{k}</span>)}
+            {added.length === 0 && removed.length === 0 && <span className="text-gray-500 text-xs">reordered</span>}
+        </div>
+    );
+};
+
+export const ImportPreviewDialog: React.FC<ImportPreviewDialogProps> = ({ fileName, preview, images, onApply, onClose }) => {
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(preview.matches.map(m => m.imageId)));
+    const byId = new Map(images.map(img => [img.id, img]));
+
+    React.useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const toggle = (id: string) => setSelectedIds(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+
+    const skipped = [
+        preview.unchangedCount > 0 && `${preview.unchangedCount} unchanged`,
+        preview.unmatchedCount > 0 && `${preview.unmatchedCount} not in the queue`,
+    ].filter(Boolean).join(', ');
+
+    return (
+        <div
+            className="fixed inset-0 bg-black bg-opacity-80 flex justify-center items-center z-50 p-4"
+            aria-modal="true"
+            role="dialog"
+            aria-labelledby="import-dialog-title"
+            onClick={onClose}
+        >
+            <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start p-6 pb-4">
+                    <div className="min-w-0">
+                        <h2 id="import-dialog-title" className="text-xl font-bold text-white">Import Changes</h2>
+                        <p className="text-sm text-gray-400 truncate">
+                            {fileName}: {preview.matches.length} {preview.matches.length === 1 ? 'image' : 'images'} to update{skipped && ` (${skipped})`}
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors" aria-label="Close import preview">
+                        <XCircleIcon className="w-8 h-8" />
+                    </button>
+                </div>
+
+                <ul className="px-6 overflow-y-auto divide-y divide-gray-700">
+                    {preview.matches.length === 0 && (
+                        <li className="py-4 text-sm text-gray-400">Nothing to change. Every matching row already agrees with the queue.</li>
+                    )}
+                    {preview.matches.map(match => {
+                        const image = byId.get(match.imageId);
+                        if (!image) return null;
+                        const { suggestedName, keywords, altText, description } = match.changes;
+                        return (
+                            <li key={match.imageId} className="py-3">
+                                <label className="flex gap-3 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedIds.has(match.imageId)}
+                                        onChange={() => toggle(match.imageId)}
+                                        className="h-4 w-4 mt-1 rounded bg-gray-900 border-gray-500 text-cyan-600 focus:ring-cyan-500 cursor-pointer"
+                                    />
+                                    <img src={image.imageUrl} alt="" className="w-12 h-12 object-cover rounded flex-shrink-0" />
+                                    <div className="min-w-0 space-y-1">
+                                        <p className="text-sm font-medium text-gray-200 truncate">
+                                            {image.file.name}
+                                            <span className="ml-2 text-xs font-normal text-gray-500">matched by {MATCHED_BY_LABELS[match.matchedBy]}</span>
+                                        </p>
+                                        {suggestedName && <TextChange label="Name" change={suggestedName} />}
+                                        {keywords && <KeywordChange change={keywords} />}
+                                        {altText && <TextChange label="Alt text" change={altText} />}
+                                        {description && <TextChange label="Description" change={description} />}
+                                    </div>
+                                </label>
+                            </li>
+                        );
+                    })}
+                </ul>
+
+                <div className="p-6 pt-4 mt-2 border-t border-gray-700 flex justify-end gap-2">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 hover:bg-gray-700 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onApply(preview.matches.filter(m => selectedIds.has(m.imageId)))}
+                        disabled={selectedIds.size === 0}
+                        className="px-4 py-2 text-sm font-medium rounded-md text-white bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Apply ({selectedIds.size})
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,14 +1,17 @@
 
 import React, { useState, useEffect, useRef } from 'react';
+import type { VocabularyTerm } from '../services/vocabulary';
 import { TagIcon } from './icons';
+import { VocabularyTree } from './VocabularyTree';
 
 interface KeywordAdderProps {
     imageKeywords: string[];
     userDefinedKeywords: string[];
+    vocabulary: VocabularyTerm[];
     onAddKeywords: (keywords: string[]) => void;
 }
 
-export const KeywordAdder: React.FC<KeywordAdderProps> = ({ imageKeywords, userDefinedKeywords, onAddKeywords }) => {
+export const KeywordAdder: React.FC<KeywordAdderProps> = ({ imageKeywords, userDefinedKeywords, vocabulary, onAddKeywords }) => {
     const [isOpen, setIsOpen] = useState(false);
     const [selectedKeywords, setSelectedKeywords] = useState<string[]>([]);
     const dropdownRef = useRef<HTMLDivElement>(null);
@@ -48,7 +51,7 @@ export const KeywordAdder: React.FC<KeywordAdderProps> = ({ imageKeywords, userD
         setSelectedKeywords([]);
     };
 
-    if (userDefinedKeywords.length === 0) {
+    if (userDefinedKeywords.length === 0 && vocabulary.length === 0) {
         return (
             <p className="text-sm text-gray-500 text-center">
                 Define some keywords in the main view to add them here.
@@ -56,7 +59,7 @@ export const KeywordAdder: React.FC<KeywordAdderProps> = ({ imageKeywords, userD
         );
     }
 
-    if (availableKeywords.length === 0) {
+    if (availableKeywords.length === 0 && vocabulary.length === 0) {
         return (
             <p className="text-sm text-gray-500 text-center">
                 All of your defined keywords have been added.
@@ -78,7 +81,7 @@ export const KeywordAdder: React.FC<KeywordAdderProps> = ({ imageKeywords, userD
 
             {isOpen && (
                 <div className="absolute z-20 mt-2 w-full max-w-xs bg-gray-700 border border-gray-600 rounded-md shadow-lg bottom-full mb-2">
-                     <div className="p-2 max-h-48 overflow-y-auto">
+                     <div className="p-2 max-h-64 overflow-y-auto">
                         {availableKeywords.map(keyword => (
                             <label key={keyword} className="flex items-center space-x-3 px-2 py-2 rounded-md hover:bg-gray-600 cursor-pointer">
                                 <input
@@ -90,6 +93,14 @@ export const KeywordAdder: React.FC<KeywordAdderProps> = ({ imageKeywords, userD
                                 <span className="text-sm text-gray-200">{keyword}</span>
                             </label>
                         ))}
+                        {vocabulary.length > 0 && (
+                            <VocabularyTree
+                                terms={vocabulary}
+                                selectedKeywords={selectedKeywords}
+                                onToggle={handleCheckboxChange}
+                                assignedKeywords={imageKeywords}
+                            />
+                        )}
                     </div>
                     <div className="p-2 border-t border-gray-600">
                         <button
@@ -2,22 +2,30 @@
 import React from 'react';
 import type { ProcessedImage } from '../App';
 import { XCircleIcon, TagIcon } from './icons';
+import type { VocabularyTerm } from '../services/vocabulary';
 import { KeywordAdder } from './KeywordAdder';
+import { CaptionFields } from './CaptionFields';
 
 interface TagEditorModalProps {
     image: ProcessedImage;
     userDefinedKeywords: string[];
+    vocabulary: VocabularyTerm[];
     onClose: () => void;
     onAddKeywords: (keywords: string[]) => void;
     onRemoveKeyword: (keyword: string) => void;
+    onAltTextChange: (altText: string) => void;
+    onDescriptionChange: (description: string) => void;
 }
 
 export const TagEditorModal: React.FC<TagEditorModalProps> = ({
     image,
     userDefinedKeywords,
+    vocabulary,
     onClose,
     onAddKeywords,
-    onRemoveKeyword
+    onRemoveKeyword,
+    onAltTextChange,
+    onDescriptionChange
 }) => {
     // Stop body scroll when modal is open
     React.useEffect(() => {
@@ -60,7 +68,7 @@ export const TagEditorModal: React.FC<TagEditorModalProps> = ({
                 {/* Editing Section */}
                 <div className="w-full md:w-1/3 flex flex-col p-6 bg-gray-800">
                     <div className="flex justify-between items-start mb-4">
-                        <h2 className="text-xl font-bold text-white pr-4">Edit Tags</h2>
+                        <h2 className="text-xl font-bold text-white pr-4">Edit Details</h2>
                         <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors hidden md:block">
                             <XCircleIcon className="w-8 h-8" />
                         </button>
@@ -70,6 +78,13 @@ export const TagEditorModal: React.FC<TagEditorModalProps> = ({
                     </p>
 
                     <div className="flex-grow overflow-y-auto pr-2 -mr-3 space-y-4">
+                        <CaptionFields
+                            idPrefix="modal"
+                            altText={image.altText}
+                            description={image.description}
+                            onAltTextChange={onAltTextChange}
+                            onDescriptionChange={onDescriptionChange}
+                        />
                         <h3 className="text-lg font-semibold text-gray-200 flex items-center">
                             <TagIcon className="w-5 h-5 mr-2" />
                             Assigned Keywords
@@ -98,6 +113,7 @@ export const TagEditorModal: React.FC<TagEditorModalProps> = ({
                         <KeywordAdder
                             imageKeywords={image.keywords}
                             userDefinedKeywords={userDefinedKeywords}
+                            vocabulary={vocabulary}
                             onAddKeywords={onAddKeywords}
                         />
                     </div>
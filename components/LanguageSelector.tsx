@@ -0,0 +1,49 @@
+
+import React from 'react';
+import { LANGUAGE_CODES, LANGUAGES, type LanguageSettings, type OutputLanguage } from '../services/languages';
+
+interface LanguageSelectorProps {
+    settings: LanguageSettings;
+    onChange: (settings: LanguageSettings) => void;
+}
+
+export const LanguageSelector: React.FC<LanguageSelectorProps> = ({ settings, onChange }) => {
+    const toggleVariant = (code: OutputLanguage) => {
+        const keywordVariants = settings.keywordVariants.includes(code)
+            ? settings.keywordVariants.filter(c => c !== code)
+            : LANGUAGE_CODES.filter(c => c === code || settings.keywordVariants.includes(c));
+        onChange({ ...settings, keywordVariants });
+    };
+
+    return (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 mt-3 text-sm text-gray-300">
+            <div className="flex items-center gap-2">
+                <label htmlFor="output-language" className="font-medium">Output language:</label>
+                <select
+                    id="output-language"
+                    value={settings.target}
+                    onChange={(e) => onChange({ ...settings, target: e.target.value as OutputLanguage })}
+                    className="bg-gray-900 border-gray-600 rounded-md shadow-sm py-1 pl-2 pr-8 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm text-gray-200"
+                >
+                    {LANGUAGE_CODES.map(code => (
+                        <option key={code} value={code}>{LANGUAGES[code].label}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="flex items-center gap-3 flex-wrap">
+                <span className="font-medium">Keyword translations for CSV:</span>
+                {LANGUAGE_CODES.filter(code => code !== settings.target).map(code => (
+                    <label key={code} className="flex items-center gap-1.5 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={settings.keywordVariants.includes(code)}
+                            onChange={() => toggleVariant(code)}
+                            className="h-4 w-4 rounded bg-gray-800 border-gray-500 text-cyan-600 focus:ring-cyan-500 cursor-pointer"
+                        />
+                        {code.toUpperCase()}
+                    </label>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,74 @@
+
+import React, { useState } from 'react';
+import { NAME_STYLES, type NameCandidate, type NameGeneration } from '../services/geminiService';
+import { RetryIcon } from './icons';
+
+interface NameCandidatesProps {
+    history: NameGeneration[];
+    selectedName: string;
+    onSelect: (name: string) => void;
+    onRegenerate: () => void;
+    isProcessing: boolean;
+}
+
+const CandidateChips: React.FC<{ candidates: NameCandidate[]; selectedName: string; onSelect: (name: string) => void }> = ({ candidates, selectedName, onSelect }) => (
+    <>
+        {candidates.map(candidate => {
+            const isSelected = candidate.filename === selectedName;
+            return (
+                <button
+                    key={candidate.filename}
+                    onClick={() => onSelect(candidate.filename)}
+                    title={`${NAME_STYLES[candidate.style]?.label ?? candidate.style} style`}
+                    aria-pressed={isSelected}
+                    className={`text-xs font-medium px-2.5 py-1 rounded-full border transition-colors max-w-full truncate ${isSelected ? 'bg-cyan-700 border-cyan-500 text-white' : 'bg-gray-900 border-gray-600 text-gray-300 hover:border-cyan-500'}`}
+                >
+                    {candidate.filename}
+                </button>
+            );
+        })}
+    </>
+);
+
+export const NameCandidates: React.FC<NameCandidatesProps> = ({ history, selectedName, onSelect, onRegenerate, isProcessing }) => {
+    const [showHistory, setShowHistory] = useState(false);
+    const latest = history[history.length - 1];
+    const earlier = history.slice(0, -1).reverse();
+
+    return (
+        <div className="mt-2">
+            <div className="flex flex-wrap items-center gap-1.5">
+                {latest && latest.candidates.length > 1 && (
+                    <CandidateChips candidates={latest.candidates} selectedName={selectedName} onSelect={onSelect} />
+                )}
+                <button
+                    onClick={onRegenerate}
+                    disabled={isProcessing}
+                    className="flex items-center gap-1 text-xs font-medium text-cyan-400 hover:text-cyan-300 disabled:opacity-50 disabled:cursor-not-allowed px-1"
+                >
+                    <RetryIcon className="w-3.5 h-3.5" />
+                    More suggestions
+                </button>
+                {earlier.length > 0 && (
+                    <button
+                        onClick={() => setShowHistory(prev => !prev)}
+                        aria-expanded={showHistory}
+                        className="text-xs font-medium text-gray-400 hover:text-gray-200 px-1"
+                    >
+                        {showHistory ? 'Hide history' : `History (${earlier.length})`}
+                    </button>
+                )}
+            </div>
+            {showHistory && (
+                <div className="mt-2 space-y-1.5 border-l-2 border-gray-700 pl-3">
+                    {earlier.map(generation => (
+                        <div key={generation.generatedAt} className="flex flex-wrap items-center gap-1.5">
+                            <span className="text-xs text-gray-500 mr-1">{new Date(generation.generatedAt).toLocaleTimeString()}</span>
+                            <CandidateChips candidates={generation.candidates} selectedName={selectedName} onSelect={onSelect} />
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
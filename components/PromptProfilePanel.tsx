@@ -0,0 +1,198 @@
+
+import React, { useRef, useState } from 'react';
+import { NAME_STYLES, type NameStyle } from '../services/geminiService';
+import {
+    createProfileId,
+    DEFAULT_PROMPT_TEMPLATE,
+    findUnknownVariables,
+    formatProfilesFile,
+    getActiveProfile,
+    isPresetProfile,
+    parseProfilesFile,
+    PRESET_PROFILES,
+    PROMPT_VARIABLES,
+    type PromptProfile,
+    type PromptProfileSettings,
+} from '../services/promptProfiles';
+import { downloadBlob } from '../utils/fileUtils';
+import { SparklesIcon } from './icons';
+
+interface PromptProfilePanelProps {
+    settings: PromptProfileSettings;
+    onChange: (settings: PromptProfileSettings) => void;
+}
+
+const inputClassName = "w-full bg-gray-900 border-gray-600 rounded-md shadow-sm px-3 py-2 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm text-gray-200";
+const buttonClassName = "px-3 py-1.5 border border-gray-600 text-sm font-medium rounded-md text-gray-300 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+export const PromptProfilePanel: React.FC<PromptProfilePanelProps> = ({ settings, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const active = getActiveProfile(settings);
+    const isPreset = isPresetProfile(active);
+    const unknownVariables = findUnknownVariables(`${active.instruction}\n${active.promptTemplate}`);
+
+    const updateActive = (patch: Partial<PromptProfile>) => onChange({
+        ...settings,
+        custom: settings.custom.map(profile => profile.id === active.id ? { ...profile, ...patch } : profile),
+    });
+
+    const handleDuplicate = () => {
+        const copy: PromptProfile = { ...active, id: createProfileId(), name: `${active.name} (copy)` };
+        onChange({ activeId: copy.id, custom: [...settings.custom, copy] });
+        setIsOpen(true);
+    };
+
+    const handleDelete = () => {
+        if (!window.confirm(`Delete the profile "${active.name}"?`)) return;
+        onChange({ activeId: PRESET_PROFILES[0].id, custom: settings.custom.filter(profile => profile.id !== active.id) });
+    };
+
+    const handleExport = () => {
+        downloadBlob(new Blob([formatProfilesFile(settings.custom)], { type: 'application/json' }), 'prompt-profiles.json');
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parseProfilesFile(await file.text());
+            onChange({ activeId: imported[0].id, custom: [...settings.custom, ...imported] });
+        } catch (error) {
+            window.alert(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 mb-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <label htmlFor="prompt-profile" className="flex items-center text-lg font-medium text-gray-200">
+                    <SparklesIcon className="w-5 h-5 mr-2" />
+                    Naming Style
+                </label>
+                <div className="flex items-center gap-2">
+                    <select
+                        id="prompt-profile"
+                        value={active.id}
+                        onChange={(e) => onChange({ ...settings, activeId: e.target.value })}
+                        className="bg-gray-900 border-gray-600 rounded-md shadow-sm py-1.5 pl-3 pr-8 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm text-gray-200"
+                    >
+                        <optgroup label="Presets">
+                            {PRESET_PROFILES.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                        </optgroup>
+                        {settings.custom.length > 0 && (
+                            <optgroup label="Your profiles">
+                                {settings.custom.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                            </optgroup>
+                        )}
+                    </select>
+                    <button onClick={() => setIsOpen(prev => !prev)} className={buttonClassName} aria-expanded={isOpen}>
+                        {isOpen ? 'Hide editor' : 'Edit...'}
+                    </button>
+                </div>
+            </div>
+
+            {isOpen && (
+                <div className="mt-4 space-y-4">
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={handleDuplicate} className={buttonClassName}>Duplicate</button>
+                        <button onClick={handleDelete} disabled={isPreset} className={buttonClassName}>Delete</button>
+                        <button onClick={handleExport} disabled={settings.custom.length === 0} className={buttonClassName} title="Save your profiles to a file to share with your team">
+                            Export profiles
+                        </button>
+                        <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+                        <button onClick={() => importInputRef.current?.click()} className={buttonClassName}>Import...</button>
+                    </div>
+
+                    {isPreset && (
+                        <p className="text-sm text-gray-400">Presets can't be changed. Duplicate this one to make an editable copy.</p>
+                    )}
+
+                    <div className="grid gap-4 sm:grid-cols-2">
+                        <div>
+                            <label htmlFor="profile-name" className="block text-sm font-medium text-gray-300 mb-1">Name</label>
+                            <input
+                                id="profile-name"
+                                type="text"
+                                value={active.name}
+                                onChange={(e) => updateActive({ name: e.target.value })}
+                                disabled={isPreset}
+                                className={`${inputClassName} disabled:opacity-60`}
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="profile-style" className="block text-sm font-medium text-gray-300 mb-1">Style of the top suggestion</label>
+                            <select
+                                id="profile-style"
+                                value={active.style}
+                                onChange={(e) => updateActive({ style: e.target.value as NameStyle })}
+                                disabled={isPreset}
+                                className={`${inputClassName} disabled:opacity-60`}
+                            >
+                                {(Object.keys(NAME_STYLES) as NameStyle[]).map(style => (
+                                    <option key={style} value={style}>{NAME_STYLES[style].label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label htmlFor="profile-instruction" className="block text-sm font-medium text-gray-300 mb-1">Filename instruction</label>
+                        <textarea
+                            id="profile-instruction"
+                            value={active.instruction}
+                            onChange={(e) => updateActive({ instruction: e.target.value })}
+                            disabled={isPreset}
+                            rows={3}
+                            className={`${inputClassName} disabled:opacity-60`}
+                        />
+                    </div>
+
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <label htmlFor="profile-template" className="block text-sm font-medium text-gray-300">Prompt template (advanced)</label>
+                            {!isPreset && (
+                                <button
+                                    onClick={() => updateActive({ promptTemplate: active.promptTemplate ? '' : DEFAULT_PROMPT_TEMPLATE })}
+                                    className="text-xs font-medium text-cyan-400 hover:text-cyan-300"
+                                >
+                                    {active.promptTemplate ? 'Reset to built-in prompt' : 'Start from the built-in prompt'}
+                                </button>
+                            )}
+                        </div>
+                        <textarea
+                            id="profile-template"
+                            value={active.promptTemplate}
+                            onChange={(e) => updateActive({ promptTemplate: e.target.value })}
+                            disabled={isPreset}
+                            rows={active.promptTemplate ? 10 : 2}
+                            placeholder="Empty: the built-in prompt is used."
+                            className={`${inputClassName} font-mono text-xs disabled:opacity-60`}
+                        />
+                        {unknownVariables.length > 0 && (
+                            <p className="mt-1 text-xs text-amber-400">
+                                Unknown {unknownVariables.length === 1 ? 'variable' : 'variables'}: {unknownVariables.map(name => `\${${name}}`).join(', ')}. They are sent as written.
+                            </p>
+                        )}
+                    </div>
+
+                    <details className="text-sm text-gray-400">
+                        <summary className="cursor-pointer text-gray-300">Variables</summary>
+                        <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                            {Object.entries(PROMPT_VARIABLES).map(([name, description]) => (
+                                <React.Fragment key={name}>
+                                    <dt className="font-mono text-xs text-cyan-300">{`\${${name}}`}</dt>
+                                    <dd className="text-xs">{description}</dd>
+                                </React.Fragment>
+                            ))}
+                        </dl>
+                        <p className="mt-2 text-xs">
+                            The answer must still be JSON with the fields in <span className="font-mono">{'${responseFields}'}</span>; the app asks the model for that format either way.
+                        </p>
+                    </details>
+                </div>
+            )}
+        </div>
+    );
+};
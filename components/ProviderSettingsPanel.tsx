@@ -0,0 +1,110 @@
+
+import React, { useState } from 'react';
+import { providers, type ProviderId, type ProviderSettings } from '../services/providers';
+import { CogIcon } from './icons';
+
+interface ProviderSettingsPanelProps {
+    settings: ProviderSettings;
+    onChange: (settings: ProviderSettings) => void;
+}
+
+const inputClassName = "w-full bg-gray-900 border-gray-600 rounded-md shadow-sm px-3 py-2 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm text-gray-200";
+
+interface FieldProps {
+    id: string;
+    label: string;
+    value: string;
+    onChange: (value: string) => void;
+    type?: string;
+    placeholder?: string;
+}
+
+const Field: React.FC<FieldProps> = ({ id, label, value, onChange, type = 'text', placeholder }) => (
+    <div>
+        <label htmlFor={id} className="block text-sm font-medium text-gray-300 mb-1">{label}</label>
+        <input
+            id={id}
+            type={type}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            autoComplete="off"
+            className={inputClassName}
+        />
+    </div>
+);
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const activeProvider = providers[settings.providerId];
+
+    const update = <K extends 'gemini' | 'openai' | 'ollama'>(key: K, patch: Partial<ProviderSettings[K]>) => {
+        onChange({ ...settings, [key]: { ...settings[key], ...patch } });
+    };
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 mb-6">
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                className="flex items-center justify-between w-full text-lg font-medium text-gray-200"
+                aria-expanded={isOpen}
+            >
+                <span className="flex items-center">
+                    <CogIcon className="w-5 h-5 mr-2" />
+                    AI Provider
+                </span>
+                <span className="text-sm text-gray-400">{activeProvider.label}</span>
+            </button>
+
+            {isOpen && (
+                <div className="mt-4 space-y-4">
+                    <div>
+                        <label htmlFor="provider-select" className="block text-sm font-medium text-gray-300 mb-1">Provider</label>
+                        <select
+                            id="provider-select"
+                            value={settings.providerId}
+                            onChange={(e) => onChange({ ...settings, providerId: e.target.value as ProviderId })}
+                            className={inputClassName}
+                        >
+                            {Object.values(providers).map(provider => (
+                                <option key={provider.id} value={provider.id}>{provider.label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {settings.providerId === 'gemini' && (
+                        <div className="grid gap-4 sm:grid-cols-2">
+                            <Field id="gemini-model" label="Model" value={settings.gemini.model} onChange={model => update('gemini', { model })} />
+                            <Field id="gemini-key" label="API Key" type="password" value={settings.gemini.apiKey} onChange={apiKey => update('gemini', { apiKey })} />
+                        </div>
+                    )}
+
+                    {settings.providerId === 'openai' && (
+                        <div className="grid gap-4 sm:grid-cols-3">
+                            <Field id="openai-url" label="Base URL" value={settings.openai.baseUrl} onChange={baseUrl => update('openai', { baseUrl })} placeholder="https://api.openai.com/v1" />
+                            <Field id="openai-model" label="Model" value={settings.openai.model} onChange={model => update('openai', { model })} />
+                            <Field id="openai-key" label="API Key" type="password" value={settings.openai.apiKey} onChange={apiKey => update('openai', { apiKey })} placeholder="Optional for local servers" />
+                        </div>
+                    )}
+
+                    {settings.providerId === 'ollama' && (
+                        <div className="grid gap-4 sm:grid-cols-2">
+                            <Field id="ollama-url" label="Server URL" value={settings.ollama.baseUrl} onChange={baseUrl => update('ollama', { baseUrl })} placeholder="http://localhost:11434" />
+                            <Field id="ollama-model" label="Model" value={settings.ollama.model} onChange={model => update('ollama', { model })} />
+                        </div>
+                    )}
+
+                    {settings.providerId === 'mock' && (
+                        <p className="text-sm text-gray-400">
+                            Returns deterministic placeholder names and keywords without contacting any service. Useful for testing the pipeline.
+                        </p>
+                    )}
+
+                    <p className="text-sm text-gray-400">
+                        Settings are stored in this browser only. Use any OpenAI-compatible endpoint (OpenAI, LM Studio, llama.cpp, vLLM) or a local Ollama server with a vision model.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,104 @@
+
+import React, { useState } from 'react';
+import type { ResizeFormat, ResizeSettings } from '../services/imagePreprocessing';
+import { CogIcon } from './icons';
+
+interface ResizeSettingsPanelProps {
+    settings: ResizeSettings;
+    onChange: (settings: ResizeSettings) => void;
+}
+
+const inputClassName = "w-full bg-gray-900 border-gray-600 rounded-md shadow-sm px-3 py-2 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm text-gray-200 disabled:opacity-50";
+
+export const ResizeSettingsPanel: React.FC<ResizeSettingsPanelProps> = ({ settings, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    const update = (patch: Partial<ResizeSettings>) => onChange({ ...settings, ...patch });
+
+    const handleMaxEdgeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const value = e.target.valueAsNumber;
+        if (!isNaN(value) && value >= 64) {
+            update({ maxEdge: value });
+        }
+    };
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 mb-6">
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                className="flex items-center justify-between w-full text-lg font-medium text-gray-200"
+                aria-expanded={isOpen}
+            >
+                <span className="flex items-center">
+                    <CogIcon className="w-5 h-5 mr-2" />
+                    Upload Size
+                </span>
+                <span className="text-sm text-gray-400">
+                    {settings.enabled ? `Max ${settings.maxEdge}px` : 'Original files'}
+                </span>
+            </button>
+
+            {isOpen && (
+                <div className="mt-4 space-y-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={settings.enabled}
+                            onChange={(e) => update({ enabled: e.target.checked })}
+                            className="h-4 w-4 rounded bg-gray-800 border-gray-500 text-cyan-600 focus:ring-cyan-500 cursor-pointer"
+                        />
+                        Downscale images before sending them to the AI
+                    </label>
+                    <div className="grid gap-4 sm:grid-cols-3">
+                        <div>
+                            <label htmlFor="resize-max-edge" className="block text-sm font-medium text-gray-300 mb-1">Longest edge (px)</label>
+                            <input
+                                id="resize-max-edge"
+                                type="number"
+                                min="64"
+                                max="8192"
+                                step="64"
+                                value={settings.maxEdge}
+                                onChange={handleMaxEdgeChange}
+                                disabled={!settings.enabled}
+                                className={inputClassName}
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="resize-format" className="block text-sm font-medium text-gray-300 mb-1">Format</label>
+                            <select
+                                id="resize-format"
+                                value={settings.format}
+                                onChange={(e) => update({ format: e.target.value as ResizeFormat })}
+                                disabled={!settings.enabled}
+                                className={inputClassName}
+                            >
+                                <option value="image/jpeg">JPEG</option>
+                                <option value="image/webp">WebP</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="resize-quality" className="block text-sm font-medium text-gray-300 mb-1">
+                                Quality ({Math.round(settings.quality * 100)}%)
+                            </label>
+                            <input
+                                id="resize-quality"
+                                type="range"
+                                min="0.3"
+                                max="1"
+                                step="0.05"
+                                value={settings.quality}
+                                onChange={(e) => update({ quality: e.target.valueAsNumber })}
+                                disabled={!settings.enabled}
+                                className="w-full mt-2 accent-cyan-500 disabled:opacity-50"
+                            />
+                        </div>
+                    </div>
+                    <p className="text-sm text-gray-400">
+                        Only the copy sent to the AI is resized. Downloads always contain your original, untouched files.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
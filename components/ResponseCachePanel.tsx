@@ -0,0 +1,73 @@
+
+import React, { useEffect, useState } from 'react';
+import { clearResponseCache, getResponseCacheStats, type ResponseCacheStats } from '../services/responseCache';
+import { formatBytes } from '../utils/fileUtils';
+import { CogIcon } from './icons';
+
+export const ResponseCachePanel: React.FC = () => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [stats, setStats] = useState<ResponseCacheStats | null>(null);
+    const [isClearing, setIsClearing] = useState(false);
+
+    // Counted each time the panel opens, so it reflects the latest generations.
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        getResponseCacheStats()
+            .then(result => { if (!cancelled) setStats(result); })
+            .catch(error => console.error("Failed to read the response cache:", error));
+        return () => { cancelled = true; };
+    }, [isOpen]);
+
+    const handleClear = async () => {
+        setIsClearing(true);
+        try {
+            await clearResponseCache();
+            setStats({ entries: 0, bytes: 0 });
+        } catch (error) {
+            console.error("Failed to clear the response cache:", error);
+        } finally {
+            setIsClearing(false);
+        }
+    };
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 mb-6">
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                className="flex items-center justify-between w-full text-lg font-medium text-gray-200"
+                aria-expanded={isOpen}
+            >
+                <span className="flex items-center">
+                    <CogIcon className="w-5 h-5 mr-2" />
+                    Response Cache
+                </span>
+                {stats && (
+                    <span className="text-sm text-gray-400">
+                        {stats.entries} {stats.entries === 1 ? 'result' : 'results'}, {formatBytes(stats.bytes)}
+                    </span>
+                )}
+            </button>
+
+            {isOpen && (
+                <div className="mt-4 space-y-4">
+                    <p className="text-sm text-gray-400">
+                        AI results are stored in this browser, keyed by the image contents and the settings used. Generating the same image with the same settings again reuses the stored result instead of calling the AI. Use Force regenerate on an image to skip it.
+                    </p>
+                    <div className="flex items-center justify-between gap-4">
+                        <span className="text-sm text-gray-300">
+                            {stats ? `${stats.entries} stored ${stats.entries === 1 ? 'result' : 'results'} (${formatBytes(stats.bytes)})` : 'Counting...'}
+                        </span>
+                        <button
+                            onClick={handleClear}
+                            disabled={isClearing || !stats || stats.entries === 0}
+                            className="px-3 py-1.5 border border-gray-600 text-sm font-medium rounded-md text-gray-300 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {isClearing ? 'Clearing...' : 'Clear cache'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
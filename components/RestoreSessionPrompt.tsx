@@ -0,0 +1,35 @@
+
+import React from 'react';
+import type { SessionSummary } from '../services/sessionStore';
+import { RetryIcon } from './icons';
+
+interface RestoreSessionPromptProps {
+    session: SessionSummary;
+    onRestore: () => void;
+    onDismiss: () => void;
+}
+
+export const RestoreSessionPrompt: React.FC<RestoreSessionPromptProps> = ({ session, onRestore, onDismiss }) => (
+    <div className="bg-cyan-900/40 border border-cyan-700 rounded-lg p-4 mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-3 text-gray-200">
+            <RetryIcon className="w-5 h-5 text-cyan-400 flex-shrink-0" />
+            <span>
+                Restore your previous session <span className="font-medium text-white">"{session.name}"</span> with {session.imageCount} images, last saved {new Date(session.updatedAt).toLocaleString()}?
+            </span>
+        </div>
+        <div className="flex gap-2 flex-shrink-0">
+            <button
+                onClick={onRestore}
+                className="px-4 py-2 text-sm font-medium rounded-md text-white bg-cyan-600 hover:bg-cyan-700 transition-colors"
+            >
+                Restore
+            </button>
+            <button
+                onClick={onDismiss}
+                className="px-4 py-2 text-sm font-medium rounded-md text-gray-300 border border-gray-600 hover:bg-gray-800 hover:border-gray-500 transition-colors"
+            >
+                Start Fresh
+            </button>
+        </div>
+    </div>
+);
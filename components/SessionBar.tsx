@@ -0,0 +1,74 @@
+
+import React from 'react';
+import type { SessionSummary } from '../services/sessionStore';
+import { FolderIcon } from './icons';
+
+interface SessionBarProps {
+    sessionId: string;
+    sessionName: string;
+    sessions: SessionSummary[];
+    disabled: boolean;
+    onRename: (name: string) => void;
+    onSwitch: (id: string) => void;
+    onNew: () => void;
+    onDelete: () => void;
+}
+
+export const SessionBar: React.FC<SessionBarProps> = ({
+    sessionId,
+    sessionName,
+    sessions,
+    disabled,
+    onRename,
+    onSwitch,
+    onNew,
+    onDelete
+}) => {
+    const otherSessions = sessions.filter(session => session.id !== sessionId);
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 mb-6 flex flex-col sm:flex-row sm:items-center gap-3">
+            <label htmlFor="session-name" className="flex items-center text-lg font-medium text-gray-200 flex-shrink-0">
+                <FolderIcon className="w-5 h-5 mr-2" />
+                Session
+            </label>
+            <input
+                id="session-name"
+                type="text"
+                value={sessionName}
+                onChange={(e) => onRename(e.target.value)}
+                className="flex-grow bg-gray-900 border-gray-600 rounded-md shadow-sm px-3 py-2 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm text-gray-200"
+            />
+            <select
+                value=""
+                onChange={(e) => e.target.value && onSwitch(e.target.value)}
+                disabled={disabled || otherSessions.length === 0}
+                className="bg-gray-900 border-gray-600 rounded-md shadow-sm px-3 py-2 focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm text-gray-200 disabled:opacity-50"
+                aria-label="Switch session"
+            >
+                <option value="">{otherSessions.length > 0 ? 'Switch to...' : 'No other sessions'}</option>
+                {otherSessions.map(session => (
+                    <option key={session.id} value={session.id}>
+                        {session.name} ({session.imageCount} images, {new Date(session.updatedAt).toLocaleString()})
+                    </option>
+                ))}
+            </select>
+            <div className="flex gap-2">
+                <button
+                    onClick={onNew}
+                    disabled={disabled}
+                    className="px-3 py-2 text-sm font-medium rounded-md text-white bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                    New
+                </button>
+                <button
+                    onClick={onDelete}
+                    disabled={disabled}
+                    className="px-3 py-2 text-sm font-medium rounded-md text-gray-300 border border-gray-600 hover:bg-red-600/75 hover:border-red-500 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                    Delete
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,112 @@
+
+import React, { useRef, useState } from 'react';
+import {
+    countVocabularyTerms,
+    EMPTY_VOCABULARY,
+    formatLightroomKeywords,
+    formatVocabularyCsv,
+    parseVocabularyFile,
+    type Vocabulary,
+} from '../services/vocabulary';
+import { downloadBlob } from '../utils/fileUtils';
+import { DownloadIcon, FolderIcon } from './icons';
+import { VocabularyTree } from './VocabularyTree';
+
+interface VocabularyPanelProps {
+    vocabulary: Vocabulary;
+    onChange: (vocabulary: Vocabulary) => void;
+}
+
+const buttonClassName = "flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md text-white bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+export const VocabularyPanel: React.FC<VocabularyPanelProps> = ({ vocabulary, onChange }) => {
+    const [isTreeOpen, setIsTreeOpen] = useState(false);
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const termCount = countVocabularyTerms(vocabulary.terms);
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const terms = parseVocabularyFile(file.name, await file.text());
+            if (terms.length === 0) {
+                setImportError(`No keywords found in ${file.name}.`);
+                return;
+            }
+            setImportError(null);
+            onChange({ ...vocabulary, terms });
+        } catch (error) {
+            console.error("Failed to import vocabulary:", error);
+            setImportError(`Could not read ${file.name}.`);
+        }
+    };
+
+    const handleExport = (format: 'lightroom' | 'csv') => {
+        const text = format === 'csv' ? formatVocabularyCsv(vocabulary.terms) : formatLightroomKeywords(vocabulary.terms);
+        const type = format === 'csv' ? 'text/csv;charset=utf-8;' : 'text/plain;charset=utf-8;';
+        downloadBlob(new Blob([text], { type }), format === 'csv' ? 'keywords.csv' : 'keywords.txt');
+    };
+
+    return (
+        <div className="mt-4 pt-4 border-t border-gray-700">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <p className="text-sm font-medium text-gray-200">Controlled Vocabulary</p>
+                    <p className="text-xs text-gray-400">
+                        {termCount > 0
+                            ? `${termCount} keywords. The AI picks from these and its synonyms are mapped to your terms.`
+                            : 'Import a Lightroom keyword list (.txt) or a CSV of keyword paths and synonyms.'}
+                    </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <input ref={fileInputRef} type="file" accept=".txt,.csv,text/plain,text/csv" onChange={handleImport} className="hidden" />
+                    <button onClick={() => fileInputRef.current?.click()} className={buttonClassName}>
+                        <FolderIcon className="w-4 h-4" />
+                        Import
+                    </button>
+                    <button onClick={() => handleExport('lightroom')} disabled={termCount === 0} className={buttonClassName} title="Lightroom keyword list">
+                        <DownloadIcon className="w-4 h-4" />
+                        .txt
+                    </button>
+                    <button onClick={() => handleExport('csv')} disabled={termCount === 0} className={buttonClassName}>
+                        <DownloadIcon className="w-4 h-4" />
+                        .csv
+                    </button>
+                    <button onClick={() => onChange({ ...EMPTY_VOCABULARY, includeAncestors: vocabulary.includeAncestors })} disabled={termCount === 0} className={buttonClassName}>
+                        Clear
+                    </button>
+                </div>
+            </div>
+
+            {importError && <p className="mt-2 text-sm text-red-400">{importError}</p>}
+
+            {termCount > 0 && (
+                <>
+                    <label className="flex items-center gap-2 mt-3 text-sm text-gray-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={vocabulary.includeAncestors}
+                            onChange={(e) => onChange({ ...vocabulary, includeAncestors: e.target.checked })}
+                            className="h-4 w-4 rounded bg-gray-800 border-gray-500 text-cyan-600 focus:ring-cyan-500 cursor-pointer"
+                        />
+                        Also add parent keywords (e.g. "Dog" adds "Mammals" and "Animals")
+                    </label>
+                    <button
+                        onClick={() => setIsTreeOpen(prev => !prev)}
+                        aria-expanded={isTreeOpen}
+                        className="mt-2 text-sm font-medium text-cyan-400 hover:text-cyan-300"
+                    >
+                        {isTreeOpen ? 'Hide keyword tree' : 'Show keyword tree'}
+                    </button>
+                    {isTreeOpen && (
+                        <div className="mt-2 max-h-64 overflow-y-auto bg-gray-900/50 rounded-md p-2">
+                            <VocabularyTree terms={vocabulary.terms} />
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,74 @@
+
+import React, { useState } from 'react';
+import type { VocabularyTerm } from '../services/vocabulary';
+
+interface VocabularyTreeProps {
+    terms: VocabularyTerm[];
+    // Omit to render a read-only tree.
+    selectedKeywords?: string[];
+    onToggle?: (keyword: string) => void;
+    // Keywords that are already assigned and can't be picked again.
+    assignedKeywords?: string[];
+}
+
+const TreeNode: React.FC<Omit<VocabularyTreeProps, 'terms'> & { term: VocabularyTerm }> = ({ term, selectedKeywords, onToggle, assignedKeywords = [] }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const hasChildren = term.children.length > 0;
+    const isAssigned = assignedKeywords.includes(term.name);
+    const isSelectable = !!onToggle && !term.isCategory;
+
+    return (
+        <li>
+            <div className="flex items-center gap-1.5 px-1 py-1 rounded-md hover:bg-gray-600/50">
+                <button
+                    onClick={() => setIsExpanded(prev => !prev)}
+                    className={`w-4 text-xs text-gray-400 hover:text-gray-200 ${hasChildren ? '' : 'invisible'}`}
+                    aria-label={isExpanded ? `Collapse ${term.name}` : `Expand ${term.name}`}
+                    aria-expanded={isExpanded}
+                >
+                    {isExpanded ? '▾' : '▸'}
+                </button>
+                <label className={`flex items-center gap-2 min-w-0 ${isSelectable && !isAssigned ? 'cursor-pointer' : ''}`}>
+                    {isSelectable && (
+                        <input
+                            type="checkbox"
+                            checked={isAssigned || !!selectedKeywords?.includes(term.name)}
+                            disabled={isAssigned}
+                            onChange={() => onToggle!(term.name)}
+                            className="h-4 w-4 rounded bg-gray-800 border-gray-500 text-cyan-600 focus:ring-cyan-500 cursor-pointer disabled:opacity-50"
+                        />
+                    )}
+                    <span className={`text-sm truncate ${term.isCategory ? 'font-semibold text-gray-400' : isAssigned ? 'text-gray-500' : 'text-gray-200'}`}>
+                        {term.name}
+                    </span>
+                    {term.synonyms.length > 0 && (
+                        <span className="text-xs text-gray-500 truncate" title={`Synonyms: ${term.synonyms.join(', ')}`}>
+                            {`{${term.synonyms.join(', ')}}`}
+                        </span>
+                    )}
+                </label>
+            </div>
+            {isExpanded && hasChildren && (
+                <ul className="ml-4 border-l border-gray-600 pl-1">
+                    {term.children.map(child => (
+                        <TreeNode
+                            key={child.name}
+                            term={child}
+                            selectedKeywords={selectedKeywords}
+                            onToggle={onToggle}
+                            assignedKeywords={assignedKeywords}
+                        />
+                    ))}
+                </ul>
+            )}
+        </li>
+    );
+};
+
+export const VocabularyTree: React.FC<VocabularyTreeProps> = ({ terms, ...nodeProps }) => (
+    <ul>
+        {terms.map(term => (
+            <TreeNode key={term.name} term={term} {...nodeProps} />
+        ))}
+    </ul>
+);
@@ -0,0 +1,119 @@
+
+import type { ProcessedImage } from '../App';
+import { loadSetting, oneOf, saveSetting } from '../utils/storage';
+import { getMetadataFields } from './metadataWriter';
+
+const STORAGE_KEY = 'ai-renamer.agencyProfile';
+
+export type AgencyId = 'none' | 'adobe' | 'shutterstock' | 'getty';
+
+export interface AgencyProfile {
+    id: AgencyId;
+    label: string;
+    // Limits for the keyword list, also passed to the AI.
+    keywords: { min: number; max: number };
+    // Maximum length of the description, which the agencies use as the title or caption.
+    descriptionMaxLength: number | null;
+    // The agency's category list; empty when it has none.
+    categories: string[];
+    csvHeader: string[];
+    csvRow: (image: ProcessedImage) => string[];
+}
+
+const ADOBE_CATEGORIES = [
+    'Animals', 'Buildings and Architecture', 'Business', 'Drinks', 'The Environment', 'States of Mind', 'Food',
+    'Graphic Resources', 'Hobbies and Leisure', 'Industry', 'Landscapes', 'Lifestyle', 'People', 'Plants and Flowers',
+    'Culture and Religion', 'Science', 'Social Issues', 'Sports', 'Technology', 'Transport', 'Travel',
+];
+
+const SHUTTERSTOCK_CATEGORIES = [
+    'Abstract', 'Animals/Wildlife', 'Arts', 'Backgrounds/Textures', 'Beauty/Fashion', 'Buildings/Landmarks',
+    'Business/Finance', 'Celebrities', 'Education', 'Food and Drink', 'Healthcare/Medical', 'Holidays', 'Industrial',
+    'Interiors', 'Miscellaneous', 'Nature', 'Objects', 'Parks/Outdoor', 'People', 'Religion', 'Science',
+    'Signs/Symbols', 'Sports/Recreation', 'Technology', 'Transportation', 'Vintage',
+];
+
+const fileName = (image: ProcessedImage) => `${image.suggestedName}${image.originalExtension}`;
+
+// Limits follow each agency's contributor guidelines and CSV upload templates.
+export const AGENCY_PROFILES: Record<AgencyId, AgencyProfile> = {
+    none: {
+        id: 'none',
+        label: 'None',
+        keywords: { min: 3, max: 7 },
+        descriptionMaxLength: null,
+        categories: [],
+        csvHeader: [],
+        csvRow: () => [],
+    },
+    adobe: {
+        id: 'adobe',
+        label: 'Adobe Stock',
+        keywords: { min: 5, max: 49 },
+        descriptionMaxLength: 200,
+        categories: ADOBE_CATEGORIES,
+        csvHeader: ['Filename', 'Title', 'Keywords', 'Category', 'Releases'],
+        // Adobe expects the category's number rather than its name.
+        csvRow: image => {
+            const category = ADOBE_CATEGORIES.indexOf(image.category);
+            return [fileName(image), image.description, image.keywords.join(', '), category >= 0 ? String(category + 1) : '', ''];
+        },
+    },
+    shutterstock: {
+        id: 'shutterstock',
+        label: 'Shutterstock',
+        keywords: { min: 7, max: 50 },
+        descriptionMaxLength: 200,
+        categories: SHUTTERSTOCK_CATEGORIES,
+        csvHeader: ['Filename', 'Description', 'Keywords', 'Categories', 'Editorial', 'Mature content', 'illustration'],
+        csvRow: image => [fileName(image), image.description, image.keywords.join(','), image.category, 'no', 'no', 'no'],
+    },
+    getty: {
+        id: 'getty',
+        label: 'Getty Images',
+        keywords: { min: 5, max: 50 },
+        descriptionMaxLength: 250,
+        categories: [],
+        csvHeader: ['file name', 'created date', 'description', 'country', 'brief code', 'title', 'keywords'],
+        csvRow: image => [
+            fileName(image),
+            image.metadata?.captureDate?.slice(0, 10) ?? '',
+            image.description,
+            '',
+            '',
+            getMetadataFields(image).title ?? '',
+            image.keywords.join(','),
+        ],
+    },
+};
+
+export const AGENCY_IDS = Object.keys(AGENCY_PROFILES) as AgencyId[];
+
+// Lists every rule the image breaks, as messages for the image card.
+export function validateForAgency(image: ProcessedImage, profile: AgencyProfile): string[] {
+    if (profile.id === 'none' || !image.suggestedName) return [];
+    const issues: string[] = [];
+    const { min, max } = profile.keywords;
+    if (image.keywords.length < min) {
+        issues.push(`${profile.label} needs at least ${min} keywords (has ${image.keywords.length}).`);
+    } else if (image.keywords.length > max) {
+        issues.push(`${profile.label} allows at most ${max} keywords (has ${image.keywords.length}).`);
+    }
+    if (!image.description.trim()) {
+        issues.push(`${profile.label} needs a description.`);
+    } else if (profile.descriptionMaxLength && image.description.length > profile.descriptionMaxLength) {
+        issues.push(`Description is ${image.description.length} characters; ${profile.label} allows ${profile.descriptionMaxLength}.`);
+    }
+    if (profile.categories.length > 0 && !profile.categories.includes(image.category)) {
+        issues.push(`Pick a ${profile.label} category.`);
+    }
+    return issues;
+}
+
+export function loadAgencyId(): AgencyId {
+    return loadSetting<AgencyId>(STORAGE_KEY, 'none', stored => oneOf(stored, Object.keys(AGENCY_PROFILES) as AgencyId[], 'none'));
+}
+
+export function saveAgencyId(id: AgencyId): void {
+    saveSetting(STORAGE_KEY, id, 'agency profile');
+}
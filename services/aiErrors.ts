@@ -0,0 +1,224 @@
+
+export type AiErrorKind =
+    | 'configuration'
+    | 'auth'
+    | 'rateLimit'
+    | 'safety'
+    | 'unsupportedType'
+    | 'payloadTooLarge'
+    | 'network'
+    | 'server'
+    | 'invalidResponse'
+    | 'unknown';
+
+// What the queue stores for a failed image. Plain data, so it survives being
+// saved with the session.
+export interface ImageError {
+    kind: AiErrorKind;
+    message: string;
+    // What the user can do about it.
+    hint: string;
+}
+
+export const RATE_LIMIT_ERROR_MESSAGE = "Rate limit exceeded. Please wait and retry.";
+
+// Server-requested delays longer than this (e.g. a daily quota) aren't waited out automatically.
+const MAX_AUTO_RETRY_DELAY_MS = 2 * 60 * 1000;
+
+const TRANSIENT_KINDS = new Set<AiErrorKind>(['rateLimit', 'network', 'server']);
+
+export const ERROR_HINTS: Record<AiErrorKind, string> = {
+    configuration: 'Open the AI Provider settings and fill in the missing fields.',
+    auth: 'Check the API key in the AI Provider settings and that it has access to this model.',
+    rateLimit: 'The provider is limiting requests. Lower Requests/min or Parallel, or wait a moment and retry.',
+    safety: "The provider's safety filter blocked this image. Name it by hand or try another provider.",
+    unsupportedType: 'Convert the image to JPEG, PNG or WebP, or turn on Upload Size to send a JPEG copy.',
+    payloadTooLarge: 'Turn on Upload Size to send a smaller copy of the image.',
+    network: 'Check your connection and that the provider address is reachable, then retry.',
+    server: 'The provider had a temporary problem. Retry in a moment.',
+    invalidResponse: 'The model returned an answer that could not be read. Retry, or try another model.',
+    unknown: 'Retry, and check the browser console for details.',
+};
+
+export class AiServiceError extends Error {
+    readonly kind: AiErrorKind;
+    // Delay asked for by the server (Retry-After or its equivalent), if any.
+    readonly retryAfterMs: number | null;
+
+    constructor(kind: AiErrorKind, message: string, retryAfterMs: number | null = null) {
+        super(message);
+        this.name = 'AiServiceError';
+        this.kind = kind;
+        this.retryAfterMs = retryAfterMs;
+    }
+
+    get hint(): string {
+        return ERROR_HINTS[this.kind];
+    }
+}
+
+export class ConfigurationError extends AiServiceError {
+    constructor(message: string) {
+        super('configuration', message);
+        this.name = 'ConfigurationError';
+    }
+}
+
+export class AuthError extends AiServiceError {
+    constructor(message = "The provider rejected the API key.") {
+        super('auth', message);
+        this.name = 'AuthError';
+    }
+}
+
+export class RateLimitError extends AiServiceError {
+    constructor(retryAfterMs: number | null = null) {
+        super('rateLimit', RATE_LIMIT_ERROR_MESSAGE, retryAfterMs);
+        this.name = 'RateLimitError';
+    }
+}
+
+export class SafetyBlockError extends AiServiceError {
+    constructor(reason?: string) {
+        super('safety', reason ? `The image was blocked by the provider's safety filter (${reason}).` : "The image was blocked by the provider's safety filter.");
+        this.name = 'SafetyBlockError';
+    }
+}
+
+export class UnsupportedMediaTypeError extends AiServiceError {
+    constructor(mimeType: string) {
+        super('unsupportedType', `The provider does not accept ${mimeType || 'this file type'}.`);
+        this.name = 'UnsupportedMediaTypeError';
+    }
+}
+
+export class PayloadTooLargeError extends AiServiceError {
+    constructor(message = "The image is too large for the provider.") {
+        super('payloadTooLarge', message);
+        this.name = 'PayloadTooLargeError';
+    }
+}
+
+export class NetworkError extends AiServiceError {
+    constructor(message = "Could not reach the AI provider.") {
+        super('network', message);
+        this.name = 'NetworkError';
+    }
+}
+
+export class ServerError extends AiServiceError {
+    constructor(status: number, retryAfterMs: number | null = null) {
+        super('server', `The AI provider had an internal error (status ${status}).`, retryAfterMs);
+        this.name = 'ServerError';
+    }
+}
+
+export class InvalidResponseError extends AiServiceError {
+    constructor(message = "The AI returned a response that is not valid JSON.") {
+        super('invalidResponse', message);
+        this.name = 'InvalidResponseError';
+    }
+}
+
+// Reads a Retry-After header, which is either seconds or an HTTP date.
+export function parseRetryAfter(value: string | null | undefined): number | null {
+    if (!value) return null;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Maps an HTTP error to an error class. The body is checked too, because
+// some APIs answer 400 for a bad key or an unsupported image.
+export function errorFromStatus(status: number, body: string, retryAfterMs: number | null = null, mimeType = ''): AiServiceError {
+    const text = body.toLowerCase();
+    if (status === 401 || status === 403 || text.includes('api key not valid') || text.includes('api_key_invalid') || text.includes('invalid api key')) {
+        return new AuthError();
+    }
+    if (status === 429 || text.includes('resource_exhausted')) return new RateLimitError(retryAfterMs);
+    if (status === 413 || text.includes('payload size') || text.includes('request too large')) return new PayloadTooLargeError();
+    if (status === 415 || text.includes('unsupported mime') || text.includes('unsupported image') || text.includes('invalid image')) {
+        return new UnsupportedMediaTypeError(mimeType);
+    }
+    if (status === 404) return new ConfigurationError(`The provider could not find the model or endpoint (status 404).`);
+    if (status >= 500) return new ServerError(status, retryAfterMs);
+    return new AiServiceError('unknown', `The AI request failed with status ${status}: ${body.slice(0, 200)}`);
+}
+
+// For fetch-based providers. OpenAI also sends the delay in milliseconds.
+export async function errorFromResponse(response: Response, mimeType = ''): Promise<AiServiceError> {
+    const retryAfterMs = Number(response.headers.get('retry-after-ms')) || parseRetryAfter(response.headers.get('retry-after'));
+    const body = await response.text().catch(() => '');
+    return errorFromStatus(response.status, body, retryAfterMs, mimeType);
+}
+
+// fetch rejects (with a TypeError, or an AbortError on timeout) only when no
+// response arrived, so that alone is a network error. Anything thrown while
+// reading a response is not.
+export async function fetchOrThrow(url: string, init: RequestInit): Promise<Response> {
+    try {
+        return await fetch(url, init);
+    } catch {
+        throw new NetworkError();
+    }
+}
+
+// Reads a successful response's JSON body.
+export async function readJson<T>(response: Response): Promise<T> {
+    try {
+        const json = await response.json();
+        if (json && typeof json === 'object') return json as T;
+    } catch {
+        // Reported below.
+    }
+    throw new InvalidResponseError("The provider returned a response that is not valid JSON.");
+}
+
+// Turns anything thrown while calling a provider into an AiServiceError.
+export function toAiServiceError(error: unknown): AiServiceError {
+    if (error instanceof AiServiceError) return error;
+    const text = error instanceof Error ? error.message : JSON.stringify(error);
+    if (/\b429\b/.test(text) || text.toLowerCase().includes('rate limit')) return new RateLimitError();
+    return new AiServiceError('unknown', text ? `The AI request failed: ${text.slice(0, 200)}` : "The AI request failed.");
+}
+
+export function toImageError(error: unknown): ImageError {
+    if (error instanceof AiServiceError) {
+        return { kind: error.kind, message: error.message, hint: error.hint };
+    }
+    return { kind: 'unknown', message: error instanceof Error ? error.message : 'An unknown error occurred.', hint: ERROR_HINTS.unknown };
+}
+
+// One line for logs: the message, then what to do about it.
+export function describeError(error: unknown): string {
+    if (error instanceof AiServiceError) return `${error.message} ${error.hint}`;
+    return error instanceof Error ? error.message : String(error);
+}
+
+// Rate limits, outages and server errors are worth retrying, unless the
+// server asked for a longer wait than is reasonable to sit through.
+export function isTransientError(error: unknown): boolean {
+    return error instanceof AiServiceError
+        && TRANSIENT_KINDS.has(error.kind)
+        && (error.retryAfterMs === null || error.retryAfterMs <= MAX_AUTO_RETRY_DELAY_MS);
+}
+
+export function getRetryDelay(error: unknown): number | null {
+    return error instanceof AiServiceError ? error.retryAfterMs : null;
+}
+
+// Runs a request again after transient failures, waiting as long as the
+// server asked, or with exponential backoff when it didn't say.
+export async function retryTransient<T>(run: () => Promise<T>, maxRetries = 3, baseBackoffMs = 2000): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await run();
+        } catch (error) {
+            if (attempt >= maxRetries || !isTransientError(error)) throw error;
+            // Never sooner than the backoff, even when the server says "retry now".
+            const delay = Math.max(getRetryDelay(error) ?? 0, baseBackoffMs * 2 ** attempt + Math.random() * 500);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+}
@@ -0,0 +1,197 @@
+
+import type { ProcessedImage } from '../App';
+import { parseCsv } from '../utils/csv';
+import { basename, dirname, joinPath } from '../utils/paths';
+import { slugify } from '../utils/transliterate';
+import { getFolder } from './folders';
+
+export interface ImportRow {
+    // Folder relative to the upload, as in the app's CSV and JSON exports.
+    folder?: string;
+    originalName?: string;
+    newName?: string;
+    contentHash?: string;
+    keywords?: string[];
+    altText?: string;
+    description?: string;
+}
+
+type ImportField = keyof ImportRow;
+type ImportedField = 'suggestedName' | 'keywords' | 'altText' | 'description';
+
+export type MatchedBy = 'contentHash' | 'originalName' | 'suggestedName';
+
+export interface FieldChange<T> {
+    before: T;
+    after: T;
+}
+
+export interface ImportMatch {
+    imageId: string;
+    matchedBy: MatchedBy;
+    changes: {
+        suggestedName?: FieldChange<string>;
+        keywords?: FieldChange<string[]>;
+        altText?: FieldChange<string>;
+        description?: FieldChange<string>;
+    };
+}
+
+export interface ImportPreview {
+    // Only images whose values actually differ from the file.
+    matches: ImportMatch[];
+    // Rows that matched an image but change nothing.
+    unchangedCount: number;
+    // Rows that matched no image in the queue.
+    unmatchedCount: number;
+}
+
+// Column headers and JSON keys understood by the importer, compared
+// lowercased without spaces or underscores. Covers the app's own CSV, JSON
+// and manifest exports as well as the stock agency CSVs.
+const FIELD_ALIASES: Record<string, ImportField> = {
+    folder: 'folder',
+    originalfilename: 'originalName',
+    originalname: 'originalName',
+    original: 'originalName',
+    newfilename: 'newName',
+    newname: 'newName',
+    renamed: 'newName',
+    filename: 'newName',
+    sha256: 'contentHash',
+    'sha-256': 'contentHash',
+    contenthash: 'contentHash',
+    keywords: 'keywords',
+    alttext: 'altText',
+    description: 'description',
+};
+
+const fieldFor = (key: string): ImportField | undefined => FIELD_ALIASES[key.toLowerCase().replace(/[\s_]/g, '')];
+
+const splitKeywords = (value: string) => value.split(/[,;]/).map(k => k.trim()).filter(Boolean);
+
+function toRow(entries: [string, unknown][]): ImportRow {
+    const row: ImportRow = {};
+    entries.forEach(([key, value]) => {
+        const field = fieldFor(key);
+        if (!field || value === null || value === undefined) return;
+        if (field === 'keywords') {
+            row.keywords = Array.isArray(value) ? value.map(String).map(k => k.trim()).filter(Boolean) : splitKeywords(String(value));
+        } else {
+            row[field] = String(value).trim();
+        }
+    });
+    return row;
+}
+
+// Reads the app's CSV or JSON exports, a rename manifest, or any CSV whose
+// header uses the same column names.
+export function parseImportFile(name: string, text: string): ImportRow[] {
+    if (name.toLowerCase().endsWith('.json')) {
+        const data = JSON.parse(text);
+        const entries: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.files) ? data.files : [];
+        return entries
+            .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+            .map(entry => toRow(Object.entries(entry)));
+    }
+
+    const [header, ...rows] = parseCsv(text);
+    if (!header || !header.some(fieldFor)) {
+        throw new Error("The CSV has no recognised header row (e.g. \"Original File Name\", \"New File Name\", \"Keywords\").");
+    }
+    return rows.map(cells => toRow(header.map((column, i) => [column, cells[i]])));
+}
+
+// New names may be given as paths (as in the manifest); only the filename is applied.
+const stripExtension = (filename: string) => basename(filename).replace(/\.[a-z0-9]{2,5}$/i, '');
+
+// A match only counts when it picks out a single image; `IMG_1.jpg` in two
+// folders is ambiguous without the folder, and exact copies share a hash.
+const only = (found: ProcessedImage[]) => found.length === 1 ? found[0] : undefined;
+
+function findImage(row: ImportRow, images: ProcessedImage[]): { image: ProcessedImage; matchedBy: MatchedBy } | null {
+    const hash = row.contentHash?.toLowerCase();
+    const byHash = hash && only(images.filter(img => img.contentHash === hash));
+    if (byHash) return { image: byHash, matchedBy: 'contentHash' };
+
+    if (row.originalName) {
+        // The original name may be a path (as in the manifest) or sit next to a Folder column.
+        const path = joinPath(row.folder ?? '', row.originalName);
+        const hasFolder = path.includes('/');
+        const byOriginal = only(images.filter(img => img.relativePath === path))
+            ?? (hasFolder ? undefined : only(images.filter(img => img.file.name === path)));
+        return byOriginal ? { image: byOriginal, matchedBy: 'originalName' } : null;
+    }
+
+    // A file without an original name column can only be matched on the name it was exported under.
+    if (row.newName) {
+        const folder = row.folder ?? (row.newName.includes('/') ? dirname(row.newName) : undefined);
+        const name = stripExtension(row.newName);
+        const byName = only(images.filter(img => img.suggestedName && img.suggestedName === name && (folder === undefined || getFolder(img) === folder)));
+        if (byName) return { image: byName, matchedBy: 'suggestedName' };
+    }
+    return null;
+}
+
+const sameKeywords = (a: string[], b: string[]) => a.length === b.length && a.every((k, i) => k === b[i]);
+
+// Matches each row to an image by content hash, original filename or current
+// name, in that order, and works out which fields the row would change.
+export function previewImport(images: ProcessedImage[], rows: ImportRow[]): ImportPreview {
+    const matches = new Map<string, ImportMatch>();
+    let unchangedCount = 0;
+    let unmatchedCount = 0;
+
+    rows.forEach(row => {
+        const found = findImage(row, images);
+        if (!found) {
+            unmatchedCount++;
+            return;
+        }
+        const { image, matchedBy } = found;
+        const changes: ImportMatch['changes'] = {};
+        // Edited names are cleaned up the same way as names from the AI.
+        const exportedName = row.newName && stripExtension(row.newName);
+        const newName = exportedName && exportedName !== image.suggestedName ? slugify(exportedName, image.language) : '';
+        if (newName && newName !== image.suggestedName) {
+            changes.suggestedName = { before: image.suggestedName, after: newName };
+        }
+        const keywords = row.keywords && [...new Set(row.keywords)].sort();
+        if (keywords && !sameKeywords(keywords, image.keywords)) {
+            changes.keywords = { before: image.keywords, after: keywords };
+        }
+        (['altText', 'description'] as const).forEach(field => {
+            const value = row[field];
+            if (value !== undefined && value !== image[field]) {
+                changes[field] = { before: image[field], after: value };
+            }
+        });
+
+        if (Object.keys(changes).length === 0) {
+            unchangedCount++;
+        } else {
+            // A later row for the same image wins.
+            matches.set(image.id, { imageId: image.id, matchedBy, changes });
+        }
+    });
+
+    return { matches: [...matches.values()], unchangedCount, unmatchedCount };
+}
+
+// Returns the queue with the selected matches applied.
+export function applyImport(images: ProcessedImage[], matches: ImportMatch[]): ProcessedImage[] {
+    const byId = new Map(matches.map(match => [match.imageId, match.changes]));
+    return images.map(img => {
+        const changes = byId.get(img.id);
+        if (!changes) return img;
+        const updated = { ...img };
+        (Object.keys(changes) as ImportedField[]).forEach(field => {
+            (updated as Record<ImportedField, unknown>)[field] = changes[field]!.after;
+        });
+        // The imported name becomes the base name, so applying a template later keeps it.
+        if (changes.suggestedName) {
+            updated.aiName = changes.suggestedName.after;
+        }
+        return updated;
+    });
+}
@@ -0,0 +1,176 @@
+
+import { createTokenBucket } from '../utils/rateLimiter';
+
+export type BatchStatus = 'idle' | 'running' | 'paused' | 'cancelling' | 'cancelled' | 'completed';
+
+export interface BatchProgress {
+    status: BatchStatus;
+    total: number;
+    done: number;
+    failed: number;
+    inFlight: number;
+    remaining: number;
+}
+
+export interface BatchQueueOptions<T, R> {
+    concurrency: number;
+    requestsPerMinute: number;
+    maxRetries?: number;
+    baseBackoffMs?: number;
+    isRetryable: (error: unknown) => boolean;
+    // How long the server asked to wait before retrying, if it said; the backoff is the minimum.
+    getRetryDelay?: (error: unknown) => number | null;
+    run: (item: T) => Promise<R>;
+    onStart?: (item: T) => void;
+    onSuccess?: (item: T, result: R) => void;
+    onError?: (item: T, error: unknown) => void;
+    // Called with items that were never started, or were waiting out a backoff, when the batch was cancelled.
+    onCancel?: (items: T[]) => void;
+    onProgress?: (progress: BatchProgress) => void;
+}
+
+export interface BatchQueue<T> {
+    start: (items: T[]) => Promise<BatchProgress>;
+    pause: () => void;
+    resume: () => void;
+    cancel: () => void;
+    // Drops matching items that have not been started yet.
+    remove: (predicate: (item: T) => boolean) => void;
+}
+
+export const EMPTY_BATCH_PROGRESS: BatchProgress = {
+    status: 'idle',
+    total: 0,
+    done: 0,
+    failed: 0,
+    inFlight: 0,
+    remaining: 0,
+};
+
+export function createBatchQueue<T, R>(options: BatchQueueOptions<T, R>): BatchQueue<T> {
+    const {
+        concurrency,
+        requestsPerMinute,
+        maxRetries = 5,
+        baseBackoffMs = 2000,
+        isRetryable,
+        run,
+    } = options;
+
+    const bucket = createTokenBucket(requestsPerMinute, Math.max(1, concurrency));
+    const controller = new AbortController();
+    let pending: T[] = [];
+    let resumeWaiters: (() => void)[] = [];
+    let progress: BatchProgress = { ...EMPTY_BATCH_PROGRESS };
+
+    const emit = (patch: Partial<BatchProgress>) => {
+        progress = { ...progress, ...patch };
+        progress.remaining = progress.total - progress.done - progress.failed;
+        options.onProgress?.(progress);
+    };
+
+    const waitWhilePaused = async () => {
+        while (progress.status === 'paused' && !controller.signal.aborted) {
+            await new Promise<void>(resolve => resumeWaiters.push(resolve));
+        }
+    };
+
+    const wakeWaiters = () => {
+        resumeWaiters.forEach(resolve => resolve());
+        resumeWaiters = [];
+    };
+
+    const processItem = async (item: T) => {
+        emit({ inFlight: progress.inFlight + 1 });
+        options.onStart?.(item);
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const result = await run(item);
+                options.onSuccess?.(item, result);
+                emit({ inFlight: progress.inFlight - 1, done: progress.done + 1 });
+                return;
+            } catch (error) {
+                if (attempt < maxRetries && isRetryable(error) && !controller.signal.aborted) {
+                    // Exponential backoff with jitter, or longer if the server asked; every worker waits, not just this one.
+                    const delay = Math.max(options.getRetryDelay?.(error) ?? 0, baseBackoffMs * 2 ** attempt + Math.random() * 500);
+                    bucket.block(delay);
+                    await bucket.take(controller.signal);
+                    if (!controller.signal.aborted) continue;
+                    // Cancelled during backoff: hand the item back instead of failing it.
+                    pending.push(item);
+                    emit({ inFlight: progress.inFlight - 1 });
+                    return;
+                }
+                options.onError?.(item, error);
+                emit({ inFlight: progress.inFlight - 1, failed: progress.failed + 1 });
+                return;
+            }
+        }
+    };
+
+    const worker = async () => {
+        while (true) {
+            await waitWhilePaused();
+            if (controller.signal.aborted || pending.length === 0) return;
+            await bucket.take(controller.signal);
+            // Pausing while waiting for a token holds the item back until resume.
+            await waitWhilePaused();
+            if (controller.signal.aborted) return;
+            const item = pending.shift();
+            if (item === undefined) return;
+            await processItem(item);
+        }
+    };
+
+    const start = async (items: T[]) => {
+        pending = [...items];
+        emit({ status: 'running', total: items.length });
+
+        await Promise.all(Array.from({ length: Math.max(1, concurrency) }, () => worker()));
+
+        if (controller.signal.aborted) {
+            const skipped = pending;
+            pending = [];
+            options.onCancel?.(skipped);
+            // Skipped items are no longer part of this batch.
+            emit({ status: 'cancelled', total: progress.done + progress.failed });
+        } else {
+            emit({ status: 'completed' });
+        }
+        return progress;
+    };
+
+    const pause = () => {
+        if (progress.status === 'running') {
+            emit({ status: 'paused' });
+        }
+    };
+
+    const resume = () => {
+        if (progress.status === 'paused') {
+            emit({ status: 'running' });
+            wakeWaiters();
+        }
+    };
+
+    const cancel = () => {
+        if (progress.status === 'running' || progress.status === 'paused') {
+            controller.abort();
+            // Status becomes 'cancelled' once in-flight requests settle.
+            emit({ status: 'cancelling' });
+            wakeWaiters();
+        }
+    };
+
+    const remove = (predicate: (item: T) => boolean) => {
+        const kept = pending.filter(item => !predicate(item));
+        const removedCount = pending.length - kept.length;
+        if (removedCount > 0) {
+            pending = kept;
+            emit({ total: progress.total - removedCount });
+        }
+    };
+
+    return { start, pause, resume, cancel, remove };
+}
@@ -0,0 +1,106 @@
+
+import type { ProcessedImage } from '../App';
+import { hammingDistance } from '../utils/imageHash';
+
+// Maximum number of differing dHash bits (out of 64) for two images to count
+// as near duplicates. Burst frames usually differ by fewer than 6.
+export const NEAR_DUPLICATE_THRESHOLD = 8;
+
+export interface DuplicateInfo {
+    // The earliest image of the group in queue order.
+    leaderId: string;
+    isLeader: boolean;
+    // Byte-identical to the leader.
+    isExact: boolean;
+    groupSize: number;
+}
+
+function isDuplicatePair(a: ProcessedImage, b: ProcessedImage, threshold: number): boolean {
+    if (a.contentHash && a.contentHash === b.contentHash) return true;
+    return !!a.perceptualHash && !!b.perceptualHash && hammingDistance(a.perceptualHash, b.perceptualHash) <= threshold;
+}
+
+// Groups exact and near duplicates with union-find, so chains of similar
+// frames in a burst end up in one group. Returns info for grouped images only.
+export function findDuplicates(images: ProcessedImage[], threshold = NEAR_DUPLICATE_THRESHOLD): Map<string, DuplicateInfo> {
+    const parent = images.map((_, i) => i);
+    const find = (i: number): number => {
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    };
+
+    for (let i = 0; i < images.length; i++) {
+        for (let j = i + 1; j < images.length; j++) {
+            if (isDuplicatePair(images[i], images[j], threshold)) {
+                const [rootI, rootJ] = [find(i), find(j)];
+                // The lower index stays root, so the leader is the earliest image.
+                if (rootI !== rootJ) parent[Math.max(rootI, rootJ)] = Math.min(rootI, rootJ);
+            }
+        }
+    }
+
+    const groups = new Map<number, number[]>();
+    images.forEach((_, i) => {
+        const root = find(i);
+        groups.set(root, [...(groups.get(root) ?? []), i]);
+    });
+
+    const info = new Map<string, DuplicateInfo>();
+    groups.forEach((members, root) => {
+        if (members.length < 2) return;
+        const leader = images[root];
+        members.forEach(i => {
+            info.set(images[i].id, {
+                leaderId: leader.id,
+                isLeader: i === root,
+                isExact: i !== root && !!leader.contentHash && images[i].contentHash === leader.contentHash,
+                groupSize: members.length,
+            });
+        });
+    });
+    return info;
+}
+
+// Queue order with every group's members placed right after their leader.
+export function orderByDuplicateGroup(images: ProcessedImage[], duplicates: Map<string, DuplicateInfo>): ProcessedImage[] {
+    const ordered: ProcessedImage[] = [];
+    images.forEach(image => {
+        const info = duplicates.get(image.id);
+        if (!info) {
+            ordered.push(image);
+        } else if (info.isLeader) {
+            ordered.push(image, ...images.filter(img => duplicates.get(img.id)?.leaderId === image.id && img.id !== image.id));
+        }
+    });
+    return ordered;
+}
+
+type CopiedDetails = Pick<ProcessedImage, 'aiName' | 'keywords' | 'altText' | 'description' | 'language' | 'keywordTranslations' | 'category'>;
+
+// Gives every duplicate of a named leader the leader's AI name with a sequence
+// number (-2, -3, ...) and its keywords and captions. Returns the new details by image id.
+export function copyLeaderDetails(images: ProcessedImage[], duplicates: Map<string, DuplicateInfo>): Record<string, CopiedDetails> {
+    const byId = new Map(images.map(img => [img.id, img]));
+    const nextSequence = new Map<string, number>();
+    const copied: Record<string, CopiedDetails> = {};
+    images.forEach(image => {
+        const info = duplicates.get(image.id);
+        const leader = info && !info.isLeader ? byId.get(info.leaderId) : undefined;
+        if (!leader?.aiName) return;
+        const sequence = nextSequence.get(leader.id) ?? 2;
+        nextSequence.set(leader.id, sequence + 1);
+        copied[image.id] = {
+            aiName: `${leader.aiName}-${sequence}`,
+            keywords: [...leader.keywords],
+            altText: leader.altText,
+            description: leader.description,
+            language: leader.language,
+            keywordTranslations: leader.keywordTranslations,
+            category: leader.category,
+        };
+    });
+    return copied;
+}
@@ -0,0 +1,17 @@
+
+import { formatCsv } from '../../utils/csv';
+import { AGENCY_PROFILES } from '../agencyProfiles';
+import type { Exporter } from './types';
+
+export const agencyCsvExporter: Exporter = {
+    id: 'agency',
+    label: 'Stock agency CSV',
+    description: 'The upload CSV of the selected agency profile, in its exact column layout.',
+    perImage: false,
+    build: (images, { agency }) => {
+        const profile = AGENCY_PROFILES[agency];
+        if (profile.id === 'none') return [];
+        const rows = images.map(profile.csvRow);
+        return [{ path: `${profile.id}_upload.csv`, content: formatCsv([profile.csvHeader, ...rows]) + '\r\n' }];
+    },
+};
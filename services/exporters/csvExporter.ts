@@ -0,0 +1,55 @@
+
+import type { ProcessedImage } from '../../App';
+import { formatCsv } from '../../utils/csv';
+import { getFolder } from '../folders';
+import { getExportPath } from '../nameCollisions';
+import { LANGUAGE_CODES } from '../languages';
+import type { CsvColumnId, Exporter } from './types';
+
+export const CSV_COLUMNS: Record<CsvColumnId, string> = {
+    folder: 'Folder',
+    originalName: 'Original File Name',
+    newName: 'New File Name',
+    keywords: 'Keywords',
+    keywordTranslations: 'Keyword Translations',
+    altText: 'Alt Text',
+    description: 'Description',
+    language: 'Language',
+    sha256: 'SHA-256',
+};
+
+// The folder, original name and hash let an edited copy of the CSV be imported back.
+export const DEFAULT_CSV_COLUMNS: CsvColumnId[] = ['folder', 'originalName', 'newName', 'keywords', 'keywordTranslations', 'altText', 'description', 'sha256'];
+
+export const csvExporter: Exporter = {
+    id: 'csv',
+    label: 'CSV',
+    description: 'One row per image with the columns you choose.',
+    perImage: false,
+    build: (images, { csvColumns }) => {
+        const sorted = [...images].sort((a, b) => getExportPath(a).localeCompare(getExportPath(b)));
+        // Translations expand to one column per language that any image was translated into.
+        const variantLanguages = LANGUAGE_CODES.filter(code => sorted.some(image => image.keywordTranslations[code]));
+        const columns = (Object.keys(CSV_COLUMNS) as CsvColumnId[]).filter(id => csvColumns.includes(id));
+
+        const header = columns.flatMap(id => id === 'keywordTranslations'
+            ? variantLanguages.map(code => `Keywords (${code.toUpperCase()})`)
+            : [CSV_COLUMNS[id]]);
+        const cells = (image: ProcessedImage, id: CsvColumnId): string[] => {
+            switch (id) {
+                case 'folder': return [getFolder(image)];
+                case 'originalName': return [image.file.name];
+                case 'newName': return [`${image.suggestedName}${image.originalExtension}`];
+                case 'keywords': return [image.keywords.join(', ')];
+                case 'keywordTranslations': return variantLanguages.map(code => image.keywordTranslations[code]?.join(', ') ?? '');
+                case 'altText': return [image.altText];
+                case 'description': return [image.description];
+                case 'language': return [image.language];
+                case 'sha256': return [image.contentHash ?? ''];
+            }
+        };
+        const rows = sorted.map(image => columns.flatMap(id => cells(image, id)));
+
+        return [{ path: 'image_keywords.csv', content: formatCsv([header, ...rows]) + '\r\n' }];
+    },
+};
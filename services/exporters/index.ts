@@ -0,0 +1,96 @@
+
+import JSZip from 'jszip';
+import type { ProcessedImage } from '../../App';
+import { listOf, loadSetting, mergeDefaults, saveSetting } from '../../utils/storage';
+import { embedMetadata, getMetadataFields } from '../metadataWriter';
+import { getExportPath } from '../nameCollisions';
+import type { AgencyId } from '../agencyProfiles';
+import type { CsvColumnId, Exporter, ExporterId, ExportFile } from './types';
+import { csvExporter, CSV_COLUMNS, DEFAULT_CSV_COLUMNS } from './csvExporter';
+import { agencyCsvExporter } from './agencyCsvExporter';
+import { jsonExporter } from './jsonExporter';
+import { xmpSidecarExporter } from './xmpSidecarExporter';
+import { manifestExporter } from './manifestExporter';
+
+export * from './types';
+export { CSV_COLUMNS } from './csvExporter';
+
+export const exporters: Record<ExporterId, Exporter> = {
+    csv: csvExporter,
+    agency: agencyCsvExporter,
+    json: jsonExporter,
+    xmp: xmpSidecarExporter,
+    manifest: manifestExporter,
+};
+
+const SETTINGS_STORAGE_KEY = 'ai-renamer.exportSettings';
+
+export interface ExportSettings {
+    // The renamed image files themselves.
+    includeImages: boolean;
+    // Write keywords and captions into the exported image files.
+    embedMetadata: boolean;
+    formats: ExporterId[];
+    csvColumns: CsvColumnId[];
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+    includeImages: true,
+    embedMetadata: false,
+    formats: [],
+    csvColumns: DEFAULT_CSV_COLUMNS,
+};
+
+export interface ExportResult {
+    filename: string;
+    blob: Blob;
+}
+
+// True when the selection produces a single file that can be downloaded as is.
+export function isSingleFileExport(settings: ExportSettings): boolean {
+    return !settings.includeImages && settings.formats.length === 1 && !exporters[settings.formats[0]].perImage;
+}
+
+// Runs the selected exporters and bundles their files, plus the renamed
+// images when requested, into one ZIP. A single text export skips the ZIP.
+export async function createExport(images: ProcessedImage[], settings: ExportSettings, agency: AgencyId): Promise<ExportResult> {
+    const options = { ...settings, agency };
+    const files: ExportFile[] = settings.formats.flatMap(id => exporters[id].build(images, options));
+    const timestamp = Date.now();
+
+    if (isSingleFileExport(settings)) {
+        const [file] = files;
+        if (!file) throw new Error("The selected format produced no file.");
+        const [stem, extension] = file.path.split(/\.(?=[^.]+$)/);
+        const type = extension === 'csv' ? 'text/csv;charset=utf-8;' : 'application/json;charset=utf-8;';
+        return { filename: `${stem}_${timestamp}.${extension}`, blob: new Blob([file.content], { type }) };
+    }
+
+    const zip = new JSZip();
+    if (settings.includeImages) {
+        for (const image of images) {
+            const content = settings.embedMetadata
+                ? await embedMetadata(image.file, getMetadataFields(image))
+                : image.file;
+            zip.file(getExportPath(image), content);
+        }
+    }
+    files.forEach(file => zip.file(file.path, file.content));
+    return { filename: `renamed-images-${timestamp}.zip`, blob: await zip.generateAsync({ type: 'blob' }) };
+}
+
+// Formats and columns that no longer exist are dropped.
+export function loadExportSettings(): ExportSettings {
+    return loadSetting(SETTINGS_STORAGE_KEY, DEFAULT_EXPORT_SETTINGS, stored => {
+        const settings = mergeDefaults(stored, DEFAULT_EXPORT_SETTINGS);
+        return {
+            ...settings,
+            formats: listOf(settings.formats, Object.keys(exporters) as ExporterId[]),
+            csvColumns: listOf(settings.csvColumns, Object.keys(CSV_COLUMNS) as CsvColumnId[]),
+        };
+    });
+}
+
+export function saveExportSettings(settings: ExportSettings): void {
+    saveSetting(SETTINGS_STORAGE_KEY, settings, 'export settings');
+}
@@ -0,0 +1,23 @@
+
+import { getFolder } from '../folders';
+import type { Exporter } from './types';
+
+export const jsonExporter: Exporter = {
+    id: 'json',
+    label: 'JSON',
+    description: 'Every name, keyword, caption and translation, for scripts and other tools.',
+    perImage: false,
+    build: (images) => {
+        const entries = images.map(image => ({
+            folder: getFolder(image),
+            originalName: image.file.name,
+            newName: `${image.suggestedName}${image.originalExtension}`,
+            keywords: image.keywords,
+            keywordTranslations: image.keywordTranslations,
+            altText: image.altText,
+            description: image.description,
+            language: image.language,
+        }));
+        return [{ path: 'image_details.json', content: JSON.stringify(entries, null, 2) + '\n' }];
+    },
+};
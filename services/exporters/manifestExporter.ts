@@ -0,0 +1,22 @@
+
+import { getExportPath } from '../nameCollisions';
+import type { Exporter } from './types';
+
+// Maps each original file path to its new one, so a rename can be traced or undone.
+export const manifestExporter: Exporter = {
+    id: 'manifest',
+    label: 'Rename manifest',
+    description: 'Original filename to new filename, as JSON.',
+    perImage: false,
+    build: (images) => {
+        const manifest = {
+            createdAt: new Date().toISOString(),
+            files: images.map(image => ({
+                original: image.relativePath,
+                renamed: getExportPath(image),
+                sha256: image.contentHash,
+            })),
+        };
+        return [{ path: 'rename_manifest.json', content: JSON.stringify(manifest, null, 2) + '\n' }];
+    },
+};
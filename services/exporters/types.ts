@@ -0,0 +1,28 @@
+
+import type { ProcessedImage } from '../../App';
+import type { AgencyId } from '../agencyProfiles';
+
+export type ExporterId = 'csv' | 'agency' | 'json' | 'xmp' | 'manifest';
+
+export type CsvColumnId = 'folder' | 'originalName' | 'newName' | 'keywords' | 'keywordTranslations' | 'altText' | 'description' | 'language' | 'sha256';
+
+export interface ExportOptions {
+    csvColumns: CsvColumnId[];
+    // Stock agency whose CSV layout the agency exporter writes.
+    agency: AgencyId;
+}
+
+export interface ExportFile {
+    // Path inside the ZIP, or the download name when it's the only file.
+    path: string;
+    content: string | Blob;
+}
+
+export interface Exporter {
+    id: ExporterId;
+    label: string;
+    description: string;
+    // Exporters that write one file per image can only be downloaded as a ZIP.
+    perImage: boolean;
+    build: (images: ProcessedImage[], options: ExportOptions) => ExportFile[];
+}
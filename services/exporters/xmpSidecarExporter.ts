@@ -0,0 +1,32 @@
+import { buildXmpPacket } from '../../utils/xmp';
+import { getMetadataFields } from '../metadataWriter';
+import { getExportPath } from '../nameCollisions';
+import type { Exporter } from './types';
+
+const stripExtension = (path: string) => path.replace(/\.[^./]+$/, '');
+
+// Sidecars are named after the new filename without its extension, the way
+// Lightroom and Bridge pair "photo.jpg" with "photo.xmp", in the image's folder.
+// When two images share that stem (photo.jpg and photo.png) both keep their
+// extension instead ("photo.jpg.xmp"), so neither sidecar overwrites the other.
+export const xmpSidecarExporter: Exporter = {
+    id: 'xmp',
+    label: 'XMP sidecars',
+    description: 'A .xmp file next to each image with its title, keywords and captions.',
+    perImage: true,
+    build: (images) => {
+        const paths = images.map(image => getExportPath(image));
+        const stemCounts = new Map<string, number>();
+        paths.forEach(path => {
+            const stem = stripExtension(path).toLowerCase();
+            stemCounts.set(stem, (stemCounts.get(stem) ?? 0) + 1);
+        });
+        return images.map((image, i) => {
+            const stem = stripExtension(paths[i]);
+            return {
+                path: `${(stemCounts.get(stem.toLowerCase()) ?? 0) > 1 ? paths[i] : stem}.xmp`,
+                content: buildXmpPacket(getMetadataFields(image)) + '\n',
+            };
+        });
+    },
+};
@@ -0,0 +1,197 @@
+
+import type { ProcessedImage } from '../App';
+import type { ImageMetadata } from './metadataReader';
+import type { OutputLanguage } from './languages';
+import { isRecord, loadSetting, mergeDefaults, oneOf, saveSetting } from '../utils/storage';
+import { transliterate } from '../utils/transliterate';
+
+export type CasingStyle = 'kebab' | 'snake' | 'camel' | 'pascal' | 'preserve';
+
+export interface FilenameTemplate {
+    pattern: string;
+    casing: CasingStyle;
+    // User-defined tokens such as {client}.
+    variables: Record<string, string>;
+}
+
+export interface TemplateContext {
+    aiName: string;
+    keywords: string[];
+    originalName: string;
+    // 1-based position in the queue.
+    sequence: number;
+    lastModified: number;
+    metadata: ImageMetadata | null;
+    // Language of the AI text, which decides how it is transliterated.
+    language: OutputLanguage;
+}
+
+export const CASING_LABELS: Record<CasingStyle, string> = {
+    kebab: 'kebab-case',
+    snake: 'snake_case',
+    camel: 'camelCase',
+    pascal: 'PascalCase',
+    preserve: 'As written',
+};
+
+export const BUILT_IN_TOKENS = ['ai', 'original', 'keyword1', 'keywords', 'seq:000', 'date:YYYY-MM-DD', 'camera'];
+
+export const DEFAULT_FILENAME_TEMPLATE: FilenameTemplate = {
+    pattern: '{ai}',
+    casing: 'kebab',
+    variables: {},
+};
+
+const TEMPLATE_STORAGE_KEY = 'ai-renamer.filenameTemplate';
+const TOKEN_PATTERN = /\{([a-zA-Z][a-zA-Z0-9]*)(?::([^}]*))?\}/g;
+// Characters that are invalid in filenames on at least one major OS.
+const UNSAFE_CHARACTERS = /[\\/:*?"<>|\u0000-\u001f]/g;
+
+function splitWords(value: string): string[] {
+    return value.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// Every style but 'preserve' transliterates first, so accented and kana
+// keywords become plain ASCII words in the filename.
+function applyCasing(value: string, casing: CasingStyle, language: OutputLanguage): string {
+    const words = splitWords(casing === 'preserve' ? value : transliterate(value, language));
+    const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+    switch (casing) {
+        case 'kebab': return words.map(w => w.toLowerCase()).join('-');
+        case 'snake': return words.map(w => w.toLowerCase()).join('_');
+        case 'camel': return words.map((w, i) => i === 0 ? w.toLowerCase() : capitalize(w.toLowerCase())).join('');
+        case 'pascal': return words.map(w => capitalize(w.toLowerCase())).join('');
+        default: return value.trim().replace(/\s+/g, '-');
+    }
+}
+
+function formatDate(date: Date, format: string): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const parts: Record<string, string> = {
+        YYYY: String(date.getFullYear()),
+        YY: String(date.getFullYear()).slice(-2),
+        MM: pad(date.getMonth() + 1),
+        DD: pad(date.getDate()),
+        HH: pad(date.getHours()),
+        mm: pad(date.getMinutes()),
+        ss: pad(date.getSeconds()),
+    };
+    return format.replace(/YYYY|YY|MM|DD|HH|mm|ss/g, part => parts[part]);
+}
+
+function captureDate(context: TemplateContext): Date {
+    const parsed = context.metadata?.captureDate ? new Date(context.metadata.captureDate) : null;
+    return parsed && !isNaN(parsed.getTime()) ? parsed : new Date(context.lastModified);
+}
+
+function isKnownToken(name: string, template: FilenameTemplate): boolean {
+    return ['ai', 'original', 'keywords', 'seq', 'date', 'camera'].includes(name)
+        || /^keyword\d+$/.test(name)
+        || name in template.variables;
+}
+
+// Returns a message describing the first problem with the pattern, or null.
+export function validateTemplate(template: FilenameTemplate): string | null {
+    if (!template.pattern.trim()) return "The template is empty.";
+    for (const match of template.pattern.matchAll(TOKEN_PATTERN)) {
+        if (!isKnownToken(match[1], template)) {
+            return `Unknown token {${match[1]}}. Define it as a variable or use one of the built-in tokens.`;
+        }
+    }
+    if (/[{}]/.test(template.pattern.replace(TOKEN_PATTERN, ''))) {
+        return "The template has an unmatched brace.";
+    }
+    return null;
+}
+
+// Whether a new AI name changes the filename. An invalid template falls back
+// to the AI name, so it counts too.
+export function usesAiName(template: FilenameTemplate): boolean {
+    if (validateTemplate(template)) return true;
+    return [...template.pattern.matchAll(TOKEN_PATTERN)].some(match => match[1] === 'ai');
+}
+
+export function renderFilename(template: FilenameTemplate, context: TemplateContext): string {
+    const rendered = template.pattern.replace(TOKEN_PATTERN, (_, name: string, format?: string) => {
+        const keywordMatch = name.match(/^keyword(\d+)$/);
+        if (keywordMatch) {
+            return applyCasing(context.keywords[Number(keywordMatch[1]) - 1] ?? '', template.casing, context.language);
+        }
+        switch (name) {
+            case 'ai': return applyCasing(context.aiName, template.casing, context.language);
+            case 'original': return applyCasing(context.originalName, template.casing, context.language);
+            case 'keywords': return applyCasing(context.keywords.slice(0, Number(format) || 3).join(' '), template.casing, context.language);
+            case 'seq': return String(context.sequence).padStart(format?.length ?? 1, '0');
+            case 'date': return formatDate(captureDate(context), format || 'YYYY-MM-DD');
+            case 'camera': {
+                const camera = [context.metadata?.cameraMake, context.metadata?.cameraModel].filter(Boolean).join(' ');
+                return applyCasing(camera, template.casing, context.language);
+            }
+            default: return applyCasing(template.variables[name] ?? '', template.casing, context.language);
+        }
+    });
+
+    // Empty tokens leave doubled or dangling separators behind.
+    return rendered
+        .replace(UNSAFE_CHARACTERS, '')
+        .replace(/([-_. ])[-_. ]+/g, '$1')
+        .replace(/^[-_. ]+|[-_. ]+$/g, '');
+}
+
+export function getTemplateContext(image: ProcessedImage, sequence: number): TemplateContext {
+    const dot = image.file.name.lastIndexOf('.');
+    return {
+        aiName: image.aiName,
+        keywords: image.keywords,
+        originalName: dot > 0 ? image.file.name.slice(0, dot) : image.file.name,
+        sequence,
+        lastModified: image.file.lastModified,
+        metadata: image.metadata,
+        language: image.language,
+    };
+}
+
+export const SAMPLE_TEMPLATE_CONTEXT: TemplateContext = {
+    aiName: 'serene-moment-by-the-sea',
+    keywords: ['beach', 'sunset', 'ocean'],
+    originalName: 'IMG_1234',
+    sequence: 1,
+    lastModified: Date.now(),
+    metadata: null,
+    language: 'en',
+};
+
+// Parses "name=value" lines into template variables.
+export function parseVariables(text: string): Record<string, string> {
+    const variables: Record<string, string> = {};
+    text.split('\n').forEach(line => {
+        const index = line.indexOf('=');
+        if (index > 0) {
+            const name = line.slice(0, index).trim();
+            if (/^[a-zA-Z][a-zA-Z0-9]*$/.test(name)) {
+                variables[name] = line.slice(index + 1).trim();
+            }
+        }
+    });
+    return variables;
+}
+
+export function formatVariables(variables: Record<string, string>): string {
+    return Object.entries(variables).map(([name, value]) => `${name}=${value}`).join('\n');
+}
+
+export function loadFilenameTemplate(): FilenameTemplate {
+    return loadSetting(TEMPLATE_STORAGE_KEY, DEFAULT_FILENAME_TEMPLATE, stored => {
+        const template = mergeDefaults(stored, DEFAULT_FILENAME_TEMPLATE);
+        const variables = isRecord(template.variables) ? template.variables : {};
+        return {
+            pattern: template.pattern,
+            casing: oneOf(template.casing, Object.keys(CASING_LABELS) as CasingStyle[], DEFAULT_FILENAME_TEMPLATE.casing),
+            variables: Object.fromEntries(Object.entries(variables).filter(([, value]) => typeof value === 'string')) as Record<string, string>,
+        };
+    });
+}
+
+export function saveFilenameTemplate(template: FilenameTemplate): void {
+    saveSetting(TEMPLATE_STORAGE_KEY, template, 'filename template');
+}
@@ -0,0 +1,24 @@
+
+import type { ProcessedImage } from '../App';
+import { dirname } from '../utils/paths';
+
+export interface FolderGroup {
+    // Folder path relative to the upload, or '' for loose files.
+    folder: string;
+    images: ProcessedImage[];
+}
+
+export function getFolder(image: ProcessedImage): string {
+    return dirname(image.relativePath);
+}
+
+// Splits the queue into folders, in the order each folder first appears,
+// keeping the queue order within every folder.
+export function groupByFolder(images: ProcessedImage[]): FolderGroup[] {
+    const groups = new Map<string, ProcessedImage[]>();
+    images.forEach(image => {
+        const folder = getFolder(image);
+        groups.set(folder, [...(groups.get(folder) ?? []), image]);
+    });
+    return [...groups].map(([folder, members]) => ({ folder, images: members }));
+}
@@ -1,16 +1,185 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
 import { toBase64 } from '../utils/fileUtils';
+import { slugify } from '../utils/transliterate';
+import { getProvider, type JsonSchema, type ProviderSettings, type TokenUsage, type VisionResponse } from './providers';
+import { describeMetadataForPrompt, hasMetadata, type ImageMetadata } from './metadataReader';
+import { prepareImageForUpload, type ResizeSettings } from './imagePreprocessing';
+import { LANGUAGES, type OutputLanguage } from './languages';
+import { validateKeywords, type UnmatchedKeywordPolicy } from './keywordValidation';
+import { DEFAULT_PROMPT_TEMPLATE, PRESET_PROFILES, renderPromptTemplate, type PromptProfile, type PromptVariable } from './promptProfiles';
+import { ConfigurationError, InvalidResponseError, toAiServiceError, UnsupportedMediaTypeError } from './aiErrors';
 
-// It is assumed that process.env.API_KEY is configured in the environment.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Screen readers commonly cut alt text off after 125 characters.
+export const ALT_TEXT_MAX_LENGTH = 125;
 
-export async function generateImageDetails(file: File, wordLimit: number, userKeywords: string): Promise<{ filename: string; keywords: string[] }> {
-    if (!process.env.API_KEY) {
-        throw new Error("API key is not configured. Please set the API_KEY environment variable.");
+export type NameStyle = 'evocative' | 'literal' | 'product' | 'seo' | 'short' | 'archival';
+
+// Candidate styles in the order they are requested; asking for N candidates
+// uses the first N. Evocative comes first because it was the original style.
+export const NAME_STYLES: Record<NameStyle, { label: string; instruction: string }> = {
+    evocative: { label: 'Evocative', instruction: 'a creative title that captures the mood or story (e.g., "serene-moment-by-the-sea")' },
+    literal: { label: 'Literal', instruction: 'a plain statement of what is shown (e.g., "man-walking-on-beach")' },
+    product: { label: 'Product', instruction: 'a catalog-style name: subject, key attribute, setting (e.g., "white-linen-shirt-beach")' },
+    seo: { label: 'SEO', instruction: 'the search terms people would most likely use to find the image (e.g., "beach-sunset-silhouette")' },
+    short: { label: 'Short', instruction: 'as short as possible, two or three words (e.g., "beach-stroll")' },
+    archival: { label: 'Archival', instruction: 'capture date as YYYY-MM-DD when known, then place, then subject (e.g., "2023-07-14-lisbon-tram")' },
+};
+
+const STYLE_ORDER = Object.keys(NAME_STYLES) as NameStyle[];
+
+export const MAX_NAME_CANDIDATES = STYLE_ORDER.length;
+
+export interface NameCandidate {
+    filename: string;
+    style: NameStyle;
+}
+
+// One generation's candidates, best first.
+export interface NameGeneration {
+    candidates: NameCandidate[];
+    generatedAt: number;
+}
+
+const RESPONSE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        candidates: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    style: { type: 'string', enum: STYLE_ORDER },
+                    filename: { type: 'string', description: "The generated filename, lowercase with hyphens." },
+                },
+                required: ['style', 'filename'],
+            },
+            description: "Candidate filenames ranked from best to worst."
+        },
+        keywords: {
+            type: 'array',
+            items: {
+                type: 'string'
+            },
+            description: "An array of relevant keywords."
+        },
+        altText: {
+            type: 'string',
+            description: `Accessible alt text for the image, under ${ALT_TEXT_MAX_LENGTH} characters.`
+        },
+        description: {
+            type: 'string',
+            description: "A one to two sentence SEO description of the image."
+        }
+    },
+    required: ["candidates", "keywords", "altText", "description"]
+};
+
+// Limits the candidates to the requested count and, when asked for, adds a
+// keywordTranslations object with one keyword array per language and a
+// category chosen from a fixed list.
+function buildResponseSchema(candidateCount: number, keywordVariants: OutputLanguage[], categories: string[]): JsonSchema {
+    const properties: Record<string, JsonSchema> = {
+        ...(RESPONSE_SCHEMA.properties as Record<string, JsonSchema>),
+    };
+    const required = [...(RESPONSE_SCHEMA.required as string[])];
+    properties.candidates = { ...properties.candidates, minItems: candidateCount, maxItems: candidateCount };
+
+    if (keywordVariants.length > 0) {
+        properties.keywordTranslations = {
+            type: 'object',
+            properties: Object.fromEntries(keywordVariants.map(code => [code, {
+                type: 'array',
+                items: { type: 'string' },
+                description: `The keywords translated into ${LANGUAGES[code].promptName}.`,
+            }])),
+            required: keywordVariants,
+        };
+        required.push('keywordTranslations');
+    }
+    if (categories.length > 0) {
+        properties.category = { type: 'string', enum: categories, description: "The category that best fits the image." };
+        required.push('category');
+    }
+    return { ...RESPONSE_SCHEMA, properties, required };
+}
+
+export interface GenerationOptions {
+    wordLimit: number;
+    userKeywords: string;
+    providerSettings: ProviderSettings;
+    // Capture details from the file, passed to the model as context.
+    metadata?: ImageMetadata | null;
+    // Names already taken in the batch that the new filename must not repeat.
+    avoidNames?: string[];
+    // Downscales the copy sent to the AI; the original file is sent when omitted.
+    resize?: ResizeSettings;
+    // Language of the generated text; English when omitted.
+    language?: OutputLanguage;
+    // Other languages to translate the keyword list into.
+    keywordVariants?: OutputLanguage[];
+    // Number of ranked filename candidates to request; one when omitted.
+    candidateCount?: number;
+    // Other spellings that count as matches for userKeywords. The caller maps
+    // them to their keyword.
+    keywordSynonyms?: string[];
+    // What to do with returned keywords that match nothing in userKeywords;
+    // they are flagged for review when omitted.
+    unmatchedKeywords?: UnmatchedKeywordPolicy;
+    // Stock agency rules: how many keywords to return, how long the
+    // description may be and the categories to choose from.
+    keywordCount?: { min: number; max: number };
+    descriptionMaxLength?: number | null;
+    categories?: string[];
+    // Naming style and prompt template; the evocative preset when omitted.
+    profile?: PromptProfile;
+}
+
+export interface ImageDetails {
+    // The top-ranked candidate.
+    filename: string;
+    candidates: NameCandidate[];
+    keywords: string[];
+    // Keywords outside userKeywords, for the user to accept or reject.
+    flaggedKeywords: string[];
+    altText: string;
+    description: string;
+    // Keyword lists in other languages, by language code.
+    keywordTranslations: Partial<Record<OutputLanguage, string[]>>;
+    // One of options.categories, or empty when none were given.
+    category: string;
+    // Size of the image data actually sent to the provider.
+    uploadBytes: number;
+    // Tokens the request used; null when the provider doesn't report them or the result was cached.
+    usage: TokenUsage | null;
+    // Set by the response cache when the result was reused instead of generated.
+    fromCache?: boolean;
+}
+
+function truncateAtWord(text: string, maxLength: number): string {
+    if (text.length <= maxLength) return text;
+    const cut = text.slice(0, maxLength);
+    const lastSpace = cut.lastIndexOf(' ');
+    return (lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:.-]+$/, '');
+}
+
+export async function generateImageDetails(file: File, options: GenerationOptions): Promise<ImageDetails> {
+    const { wordLimit, userKeywords, providerSettings, metadata, avoidNames = [], resize, language = 'en', profile = PRESET_PROFILES[0] } = options;
+    // The profile's style leads; with several candidates the other styles follow in their usual order.
+    const primaryStyle = profile.style in NAME_STYLES ? profile.style : 'evocative';
+    const styles = [primaryStyle, ...STYLE_ORDER.filter(style => style !== primaryStyle)]
+        .slice(0, Math.min(Math.max(options.candidateCount ?? 1, 1), MAX_NAME_CANDIDATES));
+    const keywordVariants = (options.keywordVariants ?? []).filter(code => code !== language);
+    const provider = getProvider(providerSettings);
+    const configurationError = provider.validate(providerSettings);
+    if (configurationError) {
+        throw new ConfigurationError(configurationError);
+    }
+
+    const upload = resize ? await prepareImageForUpload(file, resize) : file;
+    if (!upload.type.startsWith('image/')) {
+        throw new UnsupportedMediaTypeError(upload.type);
     }
-    
-    const base64Data = await toBase64(file);
+    const base64Data = await toBase64(upload);
     if (typeof base64Data !== 'string') {
         throw new Error("Failed to read image data.");
     }
@@ -20,90 +189,144 @@ export async function generateImageDetails(file: File, wordLimit: number, userKe
         throw new Error("Invalid base64 data from file.");
     }
 
+    const categories = options.categories ?? [];
+    const { keywordCount, descriptionMaxLength } = options;
     const keywordInstruction = userKeywords.trim()
-        ? `From the following list of keywords, select the most relevant ones (between 2 and 5) for the image: [${userKeywords.trim()}]. If none from the list are relevant, return an empty array for keywords.`
-        : `Generate a list of relevant keywords (between 3 and 7) that describe the main subjects and concepts in the image.`;
+        ? `From the following list of keywords, select the most relevant ones (between ${keywordCount?.min ?? 2} and ${keywordCount?.max ?? 5}) for the image: [${userKeywords.trim()}]. If none from the list are relevant, return an empty array for keywords.`
+        : `Generate a list of relevant keywords (between ${keywordCount?.min ?? 3} and ${keywordCount?.max ?? 7}) that describe the main subjects and concepts in the image.`;
 
+    const descriptionLimit = descriptionMaxLength ? ` Keep it under ${descriptionMaxLength} characters.` : '';
+    const categoryInstruction = categories.length > 0
+        ? `\n5. The category that best fits the image, chosen from: ${categories.join(', ')}.`
+        : '';
 
-    const prompt = `Analyze this image. Based on its content, generate:
-1. An evocative and descriptive, SEO-friendly filename. Instead of a literal description (e.g., "man-on-beach"), aim for a more creative title that captures the mood or story (e.g., "serene-moment-by-the-sea"). The filename must be no more than ${wordLimit} words long, in lowercase, use hyphens for spaces, and contain no special characters other than hyphens. Do not include a file extension.
-2. ${keywordInstruction}
 
-Return the result in JSON format.`;
+    const metadataInstruction = hasMetadata(metadata)
+        ? `\nThe photo's embedded metadata says: ${describeMetadataForPrompt(metadata)}. Where it helps, let the filename and keywords reflect when and where the photo was taken.\n`
+        : '';
 
-    const imagePart = {
-        inlineData: {
-            mimeType: file.type,
-            data: base64String,
-        },
-    };
+    const avoidInstruction = avoidNames.length > 0
+        ? `\nEvery filename must be clearly different from these names, which are already used by other images: ${avoidNames.join(', ')}.\n`
+        : '';
 
-    const textPart = {
-        text: prompt
+    const languageInstruction = language === 'en'
+        ? ''
+        : `\nWrite the filename, keywords, alt text and description in ${LANGUAGES[language].promptName}. Accented letters are allowed in the filename.${language === 'ja' ? ' Write the filename in hiragana or katakana only, without kanji, so it can be romanized.' : ''}\n`;
+
+    const translationInstruction = keywordVariants.length > 0
+        ? `\nAlso translate the keywords into ${keywordVariants.map(code => `${LANGUAGES[code].promptName} ("${code}")`).join(', ')} and return them in "keywordTranslations", keyed by language code.\n`
+        : '';
+
+    // Every value the prompt template can use; the profile instruction may use them too.
+    const values: Record<PromptVariable, string> = {
+        filenameInstruction: '',
+        wordLimit: String(wordLimit),
+        keywordInstruction,
+        altTextMaxLength: String(ALT_TEXT_MAX_LENGTH),
+        descriptionLimit,
+        categoryInstruction,
+        languageInstruction,
+        translationInstruction,
+        metadataInstruction,
+        avoidInstruction,
+        responseFields: `"candidates", "keywords", "altText"${categories.length > 0 ? ', "description" and "category"' : ' and "description"'}`,
+        captureDate: metadata?.captureDate?.slice(0, 10) ?? '',
+        gpsLocation: metadata?.gps ? `${metadata.gps.latitude.toFixed(5)}, ${metadata.gps.longitude.toFixed(5)}` : '',
+        originalName: file.name.replace(/\.[^.]+$/, ''),
     };
-    
+    const styleInstruction = (style: NameStyle) => style === primaryStyle && profile.instruction.trim()
+        ? renderPromptTemplate(profile.instruction.trim(), values)
+        : NAME_STYLES[style].instruction;
+
+    values.filenameInstruction = styles.length === 1
+        ? `${styleInstruction(primaryStyle)} Return it as the only entry in "candidates" with the style "${primaryStyle}".`
+        : `${styles.length} candidate filenames, one in each of these styles:\n${styles.map(style => `   - ${style}: ${styleInstruction(style)}`).join('\n')}\n   Return them in "candidates", ranked from the name that best fits the image to the weakest.`;
+
+    const prompt = renderPromptTemplate(profile.promptTemplate.trim() || DEFAULT_PROMPT_TEMPLATE, values);
+
+    let response: VisionResponse;
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [textPart, imagePart] },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        filename: {
-                            type: Type.STRING,
-                            description: "The generated filename, lowercase with hyphens."
-                        },
-                        keywords: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.STRING
-                            },
-                            description: "An array of relevant keywords."
-                        }
-                    },
-                    required: ["filename", "keywords"]
-                }
-            }
-        });
+        response = await provider.generate({
+            prompt,
+            image: {
+                mimeType: upload.type,
+                data: base64String,
+            },
+            schema: buildResponseSchema(styles.length, keywordVariants, categories),
+        }, providerSettings);
+    } catch (error) {
+        // Providers throw typed errors for what they recognise; anything else is classified here.
+        // Nothing is logged: the app and the CLI each report failures their own way.
+        throw toAiServiceError(error);
+    }
 
-        const jsonResponse = JSON.parse(response.text);
+    try {
+        let jsonResponse;
+        try {
+            jsonResponse = JSON.parse(response.text);
+        } catch {
+            throw new InvalidResponseError(response.text.trim() ? undefined : "The AI returned an empty response.");
+        }
+        if (!jsonResponse || typeof jsonResponse !== 'object') {
+            throw new InvalidResponseError("The AI returned JSON that is not an object.");
+        }
 
-        // Clean up the filename just in case the model doesn't follow instructions perfectly
-        const cleanedFilename = (jsonResponse.filename || '')
-            .trim()
-            .toLowerCase()
-            .replace(/\s+/g, '-') 
-            .replace(/[^a-z0-9-]/g, '')
-            .replace(/-+/g, '-') 
-            .replace(/^-|-$/g, ''); 
+        // Clean up the filenames just in case the model doesn't follow instructions perfectly.
+        // Non-ASCII letters are transliterated rather than dropped.
+        const candidates: NameCandidate[] = [];
+        (Array.isArray(jsonResponse.candidates) ? jsonResponse.candidates : []).forEach((candidate: { style?: string; filename?: string }, index: number) => {
+            const filename = slugify(String(candidate?.filename || ''), language);
+            if (!filename || candidates.some(c => c.filename === filename) || candidates.length >= styles.length) return;
+            const style = STYLE_ORDER.includes(candidate.style as NameStyle) ? candidate.style as NameStyle : styles[index] ?? 'evocative';
+            candidates.push({ filename, style });
+        });
 
-        const keywords = jsonResponse.keywords || [];
+        // The model doesn't always keep to the list it was given, so snap its
+        // keywords onto the closest allowed term.
+        const returnedKeywords: string[] = (Array.isArray(jsonResponse.keywords) ? jsonResponse.keywords : []).map(String);
+        const allowedKeywords = userKeywords.split(',').map(k => k.trim()).filter(Boolean);
+        const { keywords, flagged: flaggedKeywords } = allowedKeywords.length > 0
+            ? validateKeywords(returnedKeywords, [...allowedKeywords, ...(options.keywordSynonyms ?? [])], options.unmatchedKeywords ?? 'flag')
+            : { keywords: returnedKeywords, flagged: [] };
+        const altText = truncateAtWord(String(jsonResponse.altText || '').trim(), ALT_TEXT_MAX_LENGTH);
+        const description = String(jsonResponse.description || '').trim();
+        const category = categories.includes(jsonResponse.category) ? jsonResponse.category : '';
+        const keywordTranslations = Object.fromEntries(keywordVariants.flatMap(code => {
+            const translated = jsonResponse.keywordTranslations?.[code];
+            return Array.isArray(translated) ? [[code, translated.map(String).filter(Boolean)]] : [];
+        }));
 
-        if (!cleanedFilename) {
+        if (candidates.length === 0) {
+            const filename = `image-${Date.now()}`;
              return {
-                filename: `image-${Date.now()}`,
-                keywords: keywords
+                filename,
+                candidates: [{ filename, style: styles[0] }],
+                keywords,
+                flaggedKeywords,
+                altText,
+                description,
+                keywordTranslations,
+                category,
+                uploadBytes: upload.size,
+                usage: response.usage ?? null,
             };
         }
-        
+
         return {
-            filename: cleanedFilename,
-            keywords: keywords,
+            filename: candidates[0].filename,
+            candidates,
+            keywords,
+            flaggedKeywords,
+            altText,
+            description,
+            keywordTranslations,
+            category,
+            uploadBytes: upload.size,
+            usage: response.usage ?? null,
         };
 
     } catch (error) {
-        console.error("Error calling Gemini API:", error);
-        
-        // The error from the API can have various structures.
-        // We will inspect it as a string to find rate limit indicators.
-        const errorText = (error instanceof Error ? error.toString() : JSON.stringify(error)).toLowerCase();
-
-        if (errorText.includes('429') || errorText.includes('resource_exhausted') || errorText.includes('rate limit')) {
-            throw new Error("Rate limit exceeded. Please wait and retry.");
-        }
-        
-        throw new Error("Failed to generate details from AI service.");
+        // The request itself succeeded, so whatever went wrong is in the answer.
+        throw error instanceof InvalidResponseError ? error : new InvalidResponseError("The AI returned a response in an unexpected shape.");
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,84 @@
+
+import { canvasToBlob, createCanvas } from '../utils/canvas';
+import { loadSetting, mergeDefaults, oneOf, saveSetting } from '../utils/storage';
+
+const STORAGE_KEY = 'ai-renamer.resizeSettings';
+
+export type ResizeFormat = 'image/jpeg' | 'image/webp';
+
+export interface ResizeSettings {
+    enabled: boolean;
+    // Longest edge in pixels of the copy sent to the AI.
+    maxEdge: number;
+    format: ResizeFormat;
+    // Encoder quality between 0 and 1.
+    quality: number;
+}
+
+export const DEFAULT_RESIZE_SETTINGS: ResizeSettings = {
+    enabled: true,
+    maxEdge: 1536,
+    format: 'image/jpeg',
+    quality: 0.85,
+};
+
+// Formats every provider accepts as-is, so they can be sent untouched when
+// re-encoding would not make them smaller.
+const UPLOADABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Produces the copy of an image that is sent to the AI. The original file is
+// never modified; anything the browser can't decode is sent unchanged.
+export async function prepareImageForUpload(file: File, settings: ResizeSettings): Promise<Blob> {
+    if (!settings.enabled) return file;
+
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(file);
+    } catch {
+        return file;
+    }
+
+    try {
+        const scale = Math.min(1, settings.maxEdge / Math.max(bitmap.width, bitmap.height));
+        const width = Math.max(1, Math.round(bitmap.width * scale));
+        const height = Math.max(1, Math.round(bitmap.height * scale));
+        const canvas = createCanvas(width, height);
+        const context = canvas.getContext('2d') as CanvasRenderingContext2D | null;
+        if (!context) return file;
+
+        if (settings.format === 'image/jpeg') {
+            // JPEG has no alpha; flatten transparent areas onto white instead of black.
+            context.fillStyle = '#ffffff';
+            context.fillRect(0, 0, width, height);
+        }
+        context.imageSmoothingQuality = 'high';
+        context.drawImage(bitmap, 0, 0, width, height);
+
+        const resized = await canvasToBlob(canvas, settings.format, settings.quality);
+        if (resized.size >= file.size && UPLOADABLE_TYPES.includes(file.type)) {
+            return file;
+        }
+        return resized;
+    } catch (error) {
+        console.error(`Failed to downscale ${file.name}:`, error);
+        return file;
+    } finally {
+        bitmap.close();
+    }
+}
+
+export function loadResizeSettings(): ResizeSettings {
+    return loadSetting(STORAGE_KEY, DEFAULT_RESIZE_SETTINGS, stored => {
+        const settings = mergeDefaults(stored, DEFAULT_RESIZE_SETTINGS);
+        return {
+            enabled: settings.enabled,
+            maxEdge: settings.maxEdge > 0 ? settings.maxEdge : DEFAULT_RESIZE_SETTINGS.maxEdge,
+            format: oneOf<ResizeFormat>(settings.format, ['image/jpeg', 'image/webp'], DEFAULT_RESIZE_SETTINGS.format),
+            quality: settings.quality > 0 && settings.quality <= 1 ? settings.quality : DEFAULT_RESIZE_SETTINGS.quality,
+        };
+    });
+}
+
+export function saveResizeSettings(settings: ResizeSettings): void {
+    saveSetting(STORAGE_KEY, settings, 'resize settings');
+}
@@ -0,0 +1,86 @@
+
+import { transliterate } from '../utils/transliterate';
+
+export type UnmatchedKeywordPolicy = 'flag' | 'drop';
+
+export interface KeywordValidation {
+    // Returned keywords mapped onto the allowed list, without duplicates.
+    keywords: string[];
+    // Returned keywords with no close match, kept for review unless dropped.
+    flagged: string[];
+}
+
+// Lowercases, strips accents and treats hyphens, underscores and spaces alike,
+// so "Sea-side" and "sea side" compare equal.
+function normalize(keyword: string): string {
+    return transliterate(keyword)
+        .toLowerCase()
+        .replace(/[\s_-]+/g, ' ')
+        .trim();
+}
+
+// Reduces common English plurals to a shared stem ("beaches" and "beach",
+// "cities" and "city"). Good enough for matching, not for display.
+function stem(keyword: string): string {
+    return keyword.split(' ').map(word => {
+        if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+        if (word.length > 4 && /(ch|sh|ss|x|z)es$/.test(word)) return word.slice(0, -2);
+        if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+        return word;
+    }).join(' ');
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// Typos allowed before two spellings count as different words: none for
+// short words, where one letter often changes the meaning.
+function maxDistance(length: number): number {
+    if (length <= 3) return 0;
+    if (length <= 7) return 1;
+    return 2;
+}
+
+// Finds the allowed keyword closest to the given one, or null when none is
+// close enough.
+export function matchKeyword(keyword: string, allowed: string[]): string | null {
+    const target = stem(normalize(keyword));
+    if (!target) return null;
+
+    let best: string | null = null;
+    let bestDistance = Infinity;
+    for (const candidate of allowed) {
+        const distance = editDistance(target, stem(normalize(candidate)));
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+            if (distance === 0) break;
+        }
+    }
+    return bestDistance <= maxDistance(target.length) ? best : null;
+}
+
+// Checks the model's keywords against the list it was asked to choose from.
+export function validateKeywords(returned: string[], allowed: string[], policy: UnmatchedKeywordPolicy): KeywordValidation {
+    const keywords: string[] = [];
+    const flagged: string[] = [];
+    returned.map(k => k.trim()).filter(Boolean).forEach(keyword => {
+        const match = matchKeyword(keyword, allowed);
+        if (match) {
+            if (!keywords.includes(match)) keywords.push(match);
+        } else if (policy === 'flag' && !flagged.includes(keyword)) {
+            flagged.push(keyword);
+        }
+    });
+    return { keywords, flagged };
+}
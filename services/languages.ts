@@ -0,0 +1,42 @@
+
+import { listOf, loadSetting, mergeDefaults, oneOf, saveSetting } from '../utils/storage';
+
+const STORAGE_KEY = 'ai-renamer.languageSettings';
+
+export type OutputLanguage = 'en' | 'de' | 'fr' | 'es' | 'ja';
+
+export const LANGUAGES: Record<OutputLanguage, { label: string; promptName: string }> = {
+    en: { label: 'English', promptName: 'English' },
+    de: { label: 'Deutsch', promptName: 'German' },
+    fr: { label: 'Français', promptName: 'French' },
+    es: { label: 'Español', promptName: 'Spanish' },
+    ja: { label: '日本語', promptName: 'Japanese' },
+};
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGES) as OutputLanguage[];
+
+export interface LanguageSettings {
+    // Language of the filename, keywords, alt text and description.
+    target: OutputLanguage;
+    // Extra languages the keyword list is translated into for the CSV export.
+    keywordVariants: OutputLanguage[];
+}
+
+export const DEFAULT_LANGUAGE_SETTINGS: LanguageSettings = {
+    target: 'en',
+    keywordVariants: [],
+};
+
+export function loadLanguageSettings(): LanguageSettings {
+    return loadSetting(STORAGE_KEY, DEFAULT_LANGUAGE_SETTINGS, stored => {
+        const settings = mergeDefaults(stored, DEFAULT_LANGUAGE_SETTINGS);
+        return {
+            target: oneOf(settings.target, LANGUAGE_CODES, DEFAULT_LANGUAGE_SETTINGS.target),
+            keywordVariants: listOf(settings.keywordVariants, LANGUAGE_CODES),
+        };
+    });
+}
+
+export function saveLanguageSettings(settings: LanguageSettings): void {
+    saveSetting(STORAGE_KEY, settings, 'language settings');
+}
@@ -0,0 +1,309 @@
+
+export interface ImageMetadata {
+    // Local capture time as written by the camera, e.g. "2024-06-01T14:22:05".
+    captureDate?: string;
+    cameraMake?: string;
+    cameraModel?: string;
+    lens?: string;
+    gps?: { latitude: number; longitude: number };
+    title?: string;
+    description?: string;
+    // Keywords already present in the file's IPTC or XMP data.
+    keywords: string[];
+}
+
+type TagValue = string | number | number[];
+
+const utf8 = new TextDecoder('utf-8');
+const latin1 = new TextDecoder('latin1');
+
+// JPEG metadata lives in the header; reading the whole file isn't needed.
+const JPEG_HEADER_BYTES = 512 * 1024;
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+// --- EXIF (TIFF structure) ---
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+function readIfd(view: DataView, tiffStart: number, ifdOffset: number, littleEndian: boolean): Map<number, TagValue> {
+    const tags = new Map<number, TagValue>();
+    const base = tiffStart + ifdOffset;
+    if (base + 2 > view.byteLength) return tags;
+    const count = view.getUint16(base, littleEndian);
+
+    for (let i = 0; i < count; i++) {
+        const entry = base + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        const tag = view.getUint16(entry, littleEndian);
+        const type = view.getUint16(entry + 2, littleEndian);
+        const valueCount = view.getUint32(entry + 4, littleEndian);
+        const size = TYPE_SIZES[type];
+        if (!size) continue;
+        const valueOffset = size * valueCount <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, littleEndian);
+        if (valueOffset + size * valueCount > view.byteLength) continue;
+
+        if (type === 2) {
+            const bytes = new Uint8Array(view.buffer, view.byteOffset + valueOffset, valueCount);
+            tags.set(tag, utf8.decode(bytes).replace(/\0+$/, '').trim());
+            continue;
+        }
+
+        const values: number[] = [];
+        for (let j = 0; j < Math.min(valueCount, 16); j++) {
+            const at = valueOffset + j * size;
+            switch (type) {
+                case 3: values.push(view.getUint16(at, littleEndian)); break;
+                case 4: values.push(view.getUint32(at, littleEndian)); break;
+                case 9: values.push(view.getInt32(at, littleEndian)); break;
+                case 5: values.push(view.getUint32(at, littleEndian) / (view.getUint32(at + 4, littleEndian) || 1)); break;
+                case 10: values.push(view.getInt32(at, littleEndian) / (view.getInt32(at + 4, littleEndian) || 1)); break;
+                default: values.push(view.getUint8(at));
+            }
+        }
+        tags.set(tag, values.length === 1 ? values[0] : values);
+    }
+    return tags;
+}
+
+function exifDateToIso(value: TagValue | undefined): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : undefined;
+}
+
+function toCoordinate(value: TagValue | undefined, ref: TagValue | undefined): number | undefined {
+    if (!Array.isArray(value) || value.length < 3) return undefined;
+    const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+    return ref === 'S' || ref === 'W' ? -degrees : degrees;
+}
+
+function parseExif(bytes: Uint8Array, tiffStart: number): Partial<ImageMetadata> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const order = ascii(bytes, tiffStart, 2);
+    if (order !== 'II' && order !== 'MM') return {};
+    const le = order === 'II';
+
+    const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, le), le);
+    const exifPointer = ifd0.get(0x8769);
+    const gpsPointer = ifd0.get(0x8825);
+    const exif = typeof exifPointer === 'number' ? readIfd(view, tiffStart, exifPointer, le) : new Map<number, TagValue>();
+    const gpsTags = typeof gpsPointer === 'number' ? readIfd(view, tiffStart, gpsPointer, le) : new Map<number, TagValue>();
+
+    const latitude = toCoordinate(gpsTags.get(2), gpsTags.get(1));
+    const longitude = toCoordinate(gpsTags.get(4), gpsTags.get(3));
+    const text = (value: TagValue | undefined) => typeof value === 'string' && value ? value : undefined;
+
+    return {
+        captureDate: exifDateToIso(exif.get(0x9003)) ?? exifDateToIso(ifd0.get(0x0132)),
+        cameraMake: text(ifd0.get(0x010f)),
+        cameraModel: text(ifd0.get(0x0110)),
+        lens: text(exif.get(0xa434)),
+        gps: latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined,
+    };
+}
+
+// --- XMP ---
+
+function decodeXmlEntities(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+        .replace(/&amp;/g, '&');
+}
+
+// Reads a simple property written either as an attribute or as an element.
+function xmpProperty(xml: string, name: string): string | undefined {
+    const attribute = xml.match(new RegExp(`${name}="([^"]*)"`));
+    if (attribute) return decodeXmlEntities(attribute[1]);
+    const element = xml.match(new RegExp(`<${name}>([^<]*)</${name}>`));
+    return element ? decodeXmlEntities(element[1].trim()) : undefined;
+}
+
+// Reads the items of an rdf:Bag, rdf:Seq or rdf:Alt container.
+function xmpList(xml: string, name: string): string[] {
+    const container = xml.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+    if (!container) return [];
+    return [...container[1].matchAll(/<rdf:li[^>]*>([^<]*)<\/rdf:li>/g)]
+        .map(match => decodeXmlEntities(match[1].trim()))
+        .filter(Boolean);
+}
+
+function parseXmp(xml: string): Partial<ImageMetadata> {
+    return {
+        title: xmpList(xml, 'dc:title')[0],
+        description: xmpList(xml, 'dc:description')[0],
+        keywords: xmpList(xml, 'dc:subject'),
+        captureDate: (xmpProperty(xml, 'exif:DateTimeOriginal') ?? xmpProperty(xml, 'xmp:CreateDate'))?.slice(0, 19),
+        lens: xmpProperty(xml, 'aux:Lens') ?? xmpProperty(xml, 'exifEX:LensModel'),
+        cameraMake: xmpProperty(xml, 'tiff:Make'),
+        cameraModel: xmpProperty(xml, 'tiff:Model'),
+    };
+}
+
+// --- IPTC-IIM inside a Photoshop resource block ---
+
+function parseIptc(bytes: Uint8Array, start: number, end: number): Partial<ImageMetadata> {
+    const keywords: string[] = [];
+    let title: string | undefined;
+    let description: string | undefined;
+    let decoder = latin1;
+
+    let offset = start;
+    while (offset + 5 <= end && bytes[offset] === 0x1c) {
+        const record = bytes[offset + 1];
+        const dataset = bytes[offset + 2];
+        const length = (bytes[offset + 3] << 8) | bytes[offset + 4];
+        const data = bytes.subarray(offset + 5, offset + 5 + length);
+        offset += 5 + length;
+
+        if (record === 1 && dataset === 90 && data[0] === 0x1b && data[1] === 0x25 && data[2] === 0x47) {
+            decoder = utf8;
+        } else if (record === 2 && dataset === 25) {
+            keywords.push(decoder.decode(data).trim());
+        } else if (record === 2 && dataset === 5) {
+            title = decoder.decode(data).trim();
+        } else if (record === 2 && dataset === 120) {
+            description = decoder.decode(data).trim();
+        }
+    }
+    return { keywords, title, description };
+}
+
+function parsePhotoshop(bytes: Uint8Array, start: number, end: number): Partial<ImageMetadata> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = start;
+    while (offset + 12 <= end && ascii(bytes, offset, 4) === '8BIM') {
+        const id = view.getUint16(offset + 4);
+        const nameLength = bytes[offset + 6];
+        const sizeOffset = offset + 6 + ((nameLength + 2) & ~1);
+        const size = view.getUint32(sizeOffset);
+        const dataStart = sizeOffset + 4;
+        if (id === 0x0404) {
+            return parseIptc(bytes, dataStart, Math.min(end, dataStart + size));
+        }
+        offset = dataStart + size + (size % 2);
+    }
+    return {};
+}
+
+// --- Containers ---
+
+function readJpeg(bytes: Uint8Array): Partial<ImageMetadata>[] {
+    const found: Partial<ImageMetadata>[] = [];
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === 0xda || marker === 0xd9) break;
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        const payload = offset + 4;
+        const end = offset + 2 + length;
+
+        if (marker === 0xe1 && ascii(bytes, payload, 6) === 'Exif\0\0') {
+            found.push(parseExif(bytes, payload + 6));
+        } else if (marker === 0xe1 && ascii(bytes, payload, 29) === 'http://ns.adobe.com/xap/1.0/\0') {
+            found.push(parseXmp(utf8.decode(bytes.subarray(payload + 29, end))));
+        } else if (marker === 0xed && ascii(bytes, payload, 14) === 'Photoshop 3.0\0') {
+            found.push(parsePhotoshop(bytes, payload + 14, end));
+        }
+        offset = end;
+    }
+    return found;
+}
+
+function readPng(bytes: Uint8Array): Partial<ImageMetadata>[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const found: Partial<ImageMetadata>[] = [];
+    let offset = 8;
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = ascii(bytes, offset + 4, 4);
+        const data = offset + 8;
+        if (type === 'eXIf') {
+            found.push(parseExif(bytes, data));
+        } else if (type === 'iTXt' && ascii(bytes, data, 18) === 'XML:com.adobe.xmp\0') {
+            // Skip the compression flag, method, language tag and translated keyword.
+            let textStart = data + 18 + 2;
+            for (let nulls = 0; nulls < 2 && textStart < data + length; textStart++) {
+                if (bytes[textStart] === 0) nulls++;
+            }
+            found.push(parseXmp(utf8.decode(bytes.subarray(textStart, data + length))));
+        }
+        offset += 12 + length;
+    }
+    return found;
+}
+
+function readWebp(bytes: Uint8Array): Partial<ImageMetadata>[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const found: Partial<ImageMetadata>[] = [];
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const fourCC = ascii(bytes, offset, 4);
+        const size = view.getUint32(offset + 4, true);
+        const data = offset + 8;
+        if (fourCC === 'EXIF') {
+            // Some writers keep the JPEG-style "Exif\0\0" prefix.
+            found.push(parseExif(bytes, ascii(bytes, data, 4) === 'Exif' ? data + 6 : data));
+        } else if (fourCC === 'XMP ') {
+            found.push(parseXmp(utf8.decode(bytes.subarray(data, data + size))));
+        }
+        offset = data + size + (size % 2);
+    }
+    return found;
+}
+
+// Earlier sources win for single values; keywords from all sources are combined.
+function merge(parts: Partial<ImageMetadata>[]): ImageMetadata {
+    const metadata: ImageMetadata = { keywords: [] };
+    for (const { keywords, ...rest } of parts) {
+        if (keywords) {
+            metadata.keywords = [...new Set([...metadata.keywords, ...keywords])];
+        }
+        for (const [key, value] of Object.entries(rest)) {
+            if (value !== undefined && value !== '' && !(key in metadata)) {
+                Object.assign(metadata, { [key]: value });
+            }
+        }
+    }
+    return metadata;
+}
+
+export function hasMetadata(metadata: ImageMetadata | null | undefined): metadata is ImageMetadata {
+    return !!metadata && Object.entries(metadata).some(([key, value]) => key === 'keywords' ? (value as string[]).length > 0 : value !== undefined);
+}
+
+// Extracts capture details and existing keywords from JPEG, PNG and WebP
+// files. Unknown formats and damaged files yield an empty result.
+export async function readImageMetadata(file: Blob): Promise<ImageMetadata> {
+    try {
+        const source = file.type === 'image/jpeg' ? file.slice(0, JPEG_HEADER_BYTES) : file;
+        const bytes = new Uint8Array(await source.arrayBuffer());
+        if (bytes[0] === 0xff && bytes[1] === 0xd8) return merge(readJpeg(bytes));
+        if (ascii(bytes, 1, 3) === 'PNG') return merge(readPng(bytes));
+        if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return merge(readWebp(bytes));
+    } catch (error) {
+        console.error("Failed to read image metadata:", error);
+    }
+    return { keywords: [] };
+}
+
+// A short description of where and when the photo was taken, for the prompt.
+export function describeMetadataForPrompt(metadata: ImageMetadata): string {
+    const facts: string[] = [];
+    if (metadata.captureDate) facts.push(`captured on ${metadata.captureDate.replace('T', ' at ')}`);
+    const camera = [metadata.cameraMake, metadata.cameraModel].filter(Boolean).join(' ');
+    if (camera) facts.push(`camera: ${camera}`);
+    if (metadata.lens) facts.push(`lens: ${metadata.lens}`);
+    if (metadata.gps) {
+        facts.push(`GPS location: ${metadata.gps.latitude.toFixed(5)}, ${metadata.gps.longitude.toFixed(5)} (use it to identify the place if you recognise it)`);
+    }
+    if (metadata.title) facts.push(`existing title: "${metadata.title}"`);
+    if (metadata.keywords.length > 0) facts.push(`existing keywords: ${metadata.keywords.join(', ')}`);
+    return facts.join('; ');
+}
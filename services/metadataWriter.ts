@@ -0,0 +1,386 @@
+
+import type { ProcessedImage } from '../App';
+import { buildXmpPacket, mergeXmpPacket, type XmpFields } from '../utils/xmp';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+const PHOTOSHOP_SIGNATURE = 'Photoshop 3.0\0';
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const total = parts.reduce((sum, part) => sum + part.length, 0);
+    const out = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+function startsWith(bytes: Uint8Array, offset: number, text: string): boolean {
+    for (let i = 0; i < text.length; i++) {
+        if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+    }
+    return true;
+}
+
+// Cuts a UTF-8 string down to a byte limit without splitting a character.
+function truncateUtf8(value: string, maxBytes: number): Uint8Array {
+    let bytes = encoder.encode(value);
+    let chars = [...value];
+    while (bytes.length > maxBytes && chars.length > 0) {
+        chars = chars.slice(0, -1);
+        bytes = encoder.encode(chars.join(''));
+    }
+    return bytes;
+}
+
+// Fills in an existing packet when the file has one; packets may be padded with nulls.
+function xmpFor(existing: Uint8Array | null, fields: XmpFields): string {
+    const text = existing ? decoder.decode(existing).replace(/\0+$/, '') : '';
+    return text ? mergeXmpPacket(text, fields) : buildXmpPacket(fields);
+}
+
+// --- JPEG: XMP in APP1, IPTC-IIM inside a Photoshop APP13 resource block ---
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+    const length = payload.length + 2;
+    if (length > 0xffff) {
+        throw new Error("Metadata is too large for a JPEG segment.");
+    }
+    return concat([new Uint8Array([0xff, marker, length >> 8, length & 0xff]), payload]);
+}
+
+function iptcDataset(dataset: number, data: Uint8Array): Uint8Array {
+    return concat([new Uint8Array([0x1c, 0x02, dataset, data.length >> 8, data.length & 0xff]), data]);
+}
+
+interface IptcDataset {
+    record: number;
+    dataset: number;
+    bytes: Uint8Array;
+}
+
+function readIptcDatasets(bytes: Uint8Array): IptcDataset[] {
+    const datasets: IptcDataset[] = [];
+    let offset = 0;
+    while (offset + 5 <= bytes.length && bytes[offset] === 0x1c) {
+        const length = (bytes[offset + 3] << 8) | bytes[offset + 4];
+        // Extended (over 32 KB) datasets aren't used for text fields; stop rather than misread them.
+        if (length & 0x8000) break;
+        datasets.push({ record: bytes[offset + 1], dataset: bytes[offset + 2], bytes: bytes.subarray(offset, offset + 5 + length) });
+        offset += 5 + length;
+    }
+    return datasets;
+}
+
+// Datasets written below: 1:90 character set, 2:00 record version, 2:05 title, 2:25 keywords, 2:120 caption.
+const isWrittenDataset = ({ record, dataset }: IptcDataset) =>
+    (record === 1 && dataset === 0x5a) || (record === 2 && [0x00, 0x05, 0x19, 0x78].includes(dataset));
+
+// Existing datasets other than the ones written here (by-line, copyright, city, ...) are kept.
+function buildIptc(fields: XmpFields, existing: IptcDataset[]): Uint8Array {
+    const kept = existing.filter(dataset => !isWrittenDataset(dataset));
+    const parts: Uint8Array[] = [
+        // 1:90 Coded Character Set = UTF-8, so readers don't assume Latin-1.
+        new Uint8Array([0x1c, 0x01, 0x5a, 0x00, 0x03, 0x1b, 0x25, 0x47]),
+        ...kept.filter(dataset => dataset.record === 1).map(dataset => dataset.bytes),
+        // 2:00 Record Version 4.
+        iptcDataset(0x00, new Uint8Array([0x00, 0x04])),
+        ...kept.filter(dataset => dataset.record !== 1).map(dataset => dataset.bytes),
+    ];
+    if (fields.title) parts.push(iptcDataset(0x05, truncateUtf8(fields.title, 64)));
+    fields.keywords.forEach(keyword => parts.push(iptcDataset(0x19, truncateUtf8(keyword, 64))));
+    if (fields.description) parts.push(iptcDataset(0x78, truncateUtf8(fields.description, 2000)));
+    return concat(parts);
+}
+
+const IPTC_RESOURCE = 0x0404;
+// MD5 of the IPTC block; it would no longer match, so it is dropped.
+const IPTC_DIGEST_RESOURCE = 0x0425;
+
+interface PhotoshopResource {
+    id: number;
+    // The whole resource, header and padding included.
+    block: Uint8Array;
+    data: Uint8Array;
+}
+
+// Splits the resource blocks of a Photoshop APP13 payload (after its signature).
+function readPhotoshopResources(bytes: Uint8Array): PhotoshopResource[] {
+    const resources: PhotoshopResource[] = [];
+    let offset = 0;
+    while (offset + 12 <= bytes.length && startsWith(bytes, offset, '8BIM')) {
+        const id = (bytes[offset + 4] << 8) | bytes[offset + 5];
+        // Pascal name, length byte included, padded to an even length.
+        const nameLength = bytes[offset + 6] + 1;
+        const sizeOffset = offset + 6 + nameLength + (nameLength % 2);
+        if (sizeOffset + 4 > bytes.length) break;
+        const size = new DataView(bytes.buffer, bytes.byteOffset + sizeOffset, 4).getUint32(0);
+        const dataStart = sizeOffset + 4;
+        const end = Math.min(bytes.length, dataStart + size + (size % 2));
+        resources.push({ id, block: bytes.subarray(offset, end), data: bytes.subarray(dataStart, dataStart + size) });
+        offset = end;
+    }
+    return resources;
+}
+
+// Replaces the IPTC resource and keeps every other one (paths, slices, print settings, ...).
+function buildPhotoshopIrb(fields: XmpFields, existing: PhotoshopResource[]): Uint8Array {
+    const iptc = buildIptc(fields, existing.filter(resource => resource.id === IPTC_RESOURCE).flatMap(resource => readIptcDatasets(resource.data)));
+    const size = iptc.length;
+    const header = concat([
+        encoder.encode('8BIM'),
+        // Resource 0x0404 (IPTC-NAA), empty Pascal name padded to even length.
+        new Uint8Array([0x04, 0x04, 0x00, 0x00, size >>> 24, (size >> 16) & 0xff, (size >> 8) & 0xff, size & 0xff]),
+    ]);
+    const padding = size % 2 === 1 ? new Uint8Array([0]) : new Uint8Array(0);
+    const others = existing
+        .filter(resource => resource.id !== IPTC_RESOURCE && resource.id !== IPTC_DIGEST_RESOURCE)
+        .map(resource => resource.block);
+    return concat([encoder.encode(PHOTOSHOP_SIGNATURE), ...others, header, iptc, padding]);
+}
+
+function writeJpeg(bytes: Uint8Array, fields: XmpFields): Uint8Array {
+    if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+        throw new Error("Not a valid JPEG file.");
+    }
+
+    const leading: Uint8Array[] = [];
+    const kept: Uint8Array[] = [];
+    let offset = 2;
+    let seenOther = false;
+    let existingXmp: Uint8Array | null = null;
+    const photoshopResources: PhotoshopResource[] = [];
+
+    // Walk the header segments until the image data starts. Existing XMP and
+    // Photoshop blocks are rewritten with their other contents kept; every
+    // other segment is kept in order.
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === 0xda || marker === 0xd9) break;
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        const segment = bytes.subarray(offset, offset + 2 + length);
+        const payloadStart = offset + 4;
+        offset += 2 + length;
+
+        const isXmp = marker === 0xe1 && startsWith(bytes, payloadStart, XMP_NAMESPACE);
+        const isPhotoshop = marker === 0xed && startsWith(bytes, payloadStart, PHOTOSHOP_SIGNATURE);
+        if (isXmp) {
+            existingXmp ??= bytes.subarray(payloadStart + XMP_NAMESPACE.length, offset);
+            continue;
+        }
+        if (isPhotoshop) {
+            photoshopResources.push(...readPhotoshopResources(bytes.subarray(payloadStart + PHOTOSHOP_SIGNATURE.length, offset)));
+            continue;
+        }
+
+        // JFIF (APP0) and Exif (APP1) must stay first.
+        const isLeading = marker === 0xe0 || (marker === 0xe1 && startsWith(bytes, payloadStart, 'Exif\0'));
+        if (isLeading && !seenOther) {
+            leading.push(segment);
+        } else {
+            seenOther = true;
+            kept.push(segment);
+        }
+    }
+
+    const xmp = jpegSegment(0xe1, concat([encoder.encode(XMP_NAMESPACE), encoder.encode(xmpFor(existingXmp, fields))]));
+    const iptc = jpegSegment(0xed, buildPhotoshopIrb(fields, photoshopResources));
+
+    return concat([
+        new Uint8Array([0xff, 0xd8]),
+        ...leading,
+        xmp,
+        iptc,
+        ...kept,
+        bytes.subarray(offset),
+    ]);
+}
+
+// --- PNG: XMP in an iTXt chunk with the standard keyword ---
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const body = concat([encoder.encode(type), data]);
+    const out = new Uint8Array(body.length + 8);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    out.set(body, 4);
+    view.setUint32(4 + body.length, crc32(body));
+    return out;
+}
+
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+// The text of an iTXt chunk after its keyword, or null when it is compressed.
+function readPngXmp(data: Uint8Array): Uint8Array | null {
+    if (data[0] !== 0) return null;
+    // Skip the compression flag and method, then the language tag and translated keyword.
+    const languageEnd = data.indexOf(0, 2);
+    const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+    return translatedEnd < 0 ? null : data.subarray(translatedEnd + 1);
+}
+
+function writePng(bytes: Uint8Array, fields: XmpFields): Uint8Array {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (view.getUint32(0) !== 0x89504e47) {
+        throw new Error("Not a valid PNG file.");
+    }
+
+    // The new chunk goes right after IHDR; its position is filled in once the old packet has been read.
+    const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+    let itxtIndex = -1;
+    let existingXmp: Uint8Array | null = null;
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const chunkEnd = offset + 12 + length;
+        const isIhdr = startsWith(bytes, offset + 4, 'IHDR');
+        const isXmp = startsWith(bytes, offset + 4, 'iTXt') && startsWith(bytes, offset + 8, PNG_XMP_KEYWORD + '\0');
+        if (isXmp) {
+            existingXmp ??= readPngXmp(bytes.subarray(offset + 8 + PNG_XMP_KEYWORD.length + 1, chunkEnd - 4));
+        } else {
+            parts.push(bytes.subarray(offset, chunkEnd));
+        }
+        if (isIhdr) {
+            itxtIndex = parts.length;
+            parts.push(new Uint8Array(0));
+        }
+        offset = chunkEnd;
+    }
+
+    parts[itxtIndex] = pngChunk('iTXt', concat([
+        encoder.encode(PNG_XMP_KEYWORD),
+        // Null separator, uncompressed, compression method, empty language and translated keyword.
+        new Uint8Array([0, 0, 0, 0, 0]),
+        encoder.encode(xmpFor(existingXmp, fields)),
+    ]));
+    return concat(parts);
+}
+
+// --- WebP: XMP chunk inside an extended (VP8X) RIFF container ---
+
+function riffChunk(fourCC: string, data: Uint8Array): Uint8Array {
+    const header = new Uint8Array(8);
+    header.set(encoder.encode(fourCC));
+    new DataView(header.buffer).setUint32(4, data.length, true);
+    const padding = data.length % 2 === 1 ? new Uint8Array([0]) : new Uint8Array(0);
+    return concat([header, data, padding]);
+}
+
+// Reads the canvas size from a simple (VP8 or VP8L) WebP bitstream so it can
+// be upgraded to the extended format, which is required for metadata chunks.
+function buildVp8x(fourCC: string, data: Uint8Array): Uint8Array {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let width: number;
+    let height: number;
+    let flags = 0x04; // XMP present
+    if (fourCC === 'VP8 ') {
+        width = view.getUint16(6, true) & 0x3fff;
+        height = view.getUint16(8, true) & 0x3fff;
+    } else {
+        const bits = view.getUint32(1, true);
+        width = (bits & 0x3fff) + 1;
+        height = ((bits >> 14) & 0x3fff) + 1;
+        if ((bits >> 28) & 1) flags |= 0x10; // alpha
+    }
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = flags;
+    const w = width - 1;
+    const h = height - 1;
+    vp8x.set([w & 0xff, (w >> 8) & 0xff, (w >> 16) & 0xff, h & 0xff, (h >> 8) & 0xff, (h >> 16) & 0xff], 4);
+    return riffChunk('VP8X', vp8x);
+}
+
+function writeWebp(bytes: Uint8Array, fields: XmpFields): Uint8Array {
+    if (!startsWith(bytes, 0, 'RIFF') || !startsWith(bytes, 8, 'WEBP')) {
+        throw new Error("Not a valid WebP file.");
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: { fourCC: string; data: Uint8Array }[] = [];
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const fourCC = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+        const size = view.getUint32(offset + 4, true);
+        chunks.push({ fourCC, data: bytes.subarray(offset + 8, offset + 8 + size) });
+        offset += 8 + size + (size % 2);
+    }
+
+    const parts: Uint8Array[] = [];
+    const first = chunks[0];
+    if (first && first.fourCC === 'VP8X') {
+        const vp8x = new Uint8Array(first.data);
+        vp8x[0] |= 0x04;
+        parts.push(riffChunk('VP8X', vp8x));
+    } else if (first) {
+        parts.push(buildVp8x(first.fourCC, first.data));
+        parts.push(riffChunk(first.fourCC, first.data));
+    }
+    chunks.slice(1).forEach(chunk => {
+        if (chunk.fourCC !== 'XMP ') parts.push(riffChunk(chunk.fourCC, chunk.data));
+    });
+    const existingXmp = chunks.find(chunk => chunk.fourCC === 'XMP ')?.data ?? null;
+    parts.push(riffChunk('XMP ', encoder.encode(xmpFor(existingXmp, fields))));
+
+    const body = concat(parts);
+    const header = new Uint8Array(12);
+    header.set(encoder.encode('RIFF'));
+    new DataView(header.buffer).setUint32(4, body.length + 4, true);
+    header.set(encoder.encode('WEBP'), 8);
+    return concat([header, body]);
+}
+
+const WRITERS: Record<string, (bytes: Uint8Array, fields: XmpFields) => Uint8Array> = {
+    'image/jpeg': writeJpeg,
+    'image/png': writePng,
+    'image/webp': writeWebp,
+};
+
+
+// Humanizes the generated filename into a title, e.g. "serene-moment" -> "Serene moment".
+// The AI name is used rather than the final one, which may carry template dates and counters.
+export function getMetadataFields(image: Pick<ProcessedImage, 'aiName' | 'suggestedName' | 'description' | 'altText' | 'keywords'>): XmpFields {
+    const words = (image.aiName || image.suggestedName).replace(/[-_]+/g, ' ').trim();
+    return {
+        title: words ? words.charAt(0).toUpperCase() + words.slice(1) : undefined,
+        description: image.description || undefined,
+        altText: image.altText || undefined,
+        keywords: image.keywords,
+    };
+}
+
+// Returns a copy of the file with the fields embedded, or the untouched file
+// for formats that can't carry XMP or when the file can't be parsed.
+export async function embedMetadata(file: File, fields: XmpFields): Promise<Blob> {
+    const writer = WRITERS[file.type];
+    if (!writer) return file;
+    try {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        return new Blob([writer(bytes, fields)], { type: file.type });
+    } catch (error) {
+        console.error(`Failed to embed metadata into ${file.name}:`, error);
+        return file;
+    }
+}
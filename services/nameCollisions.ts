@@ -0,0 +1,71 @@
+
+import type { ProcessedImage } from '../App';
+import { joinPath } from '../utils/paths';
+import { slugify } from '../utils/transliterate';
+import { getFolder } from './folders';
+
+export type CollisionStrategy = 'suffix' | 'keyword' | 'ai';
+
+// Where the image ends up in an export: its new name inside its original folder.
+export function getExportPath(image: ProcessedImage, name = image.suggestedName): string {
+    return joinPath(getFolder(image), `${name}${image.originalExtension}`);
+}
+
+// Compared case-insensitively because Windows and macOS file systems are.
+const collisionKey = (image: ProcessedImage, name?: string) => getExportPath(image, name).toLowerCase();
+
+// Groups named images by export path; only groups with more than one image are returned.
+export function findNameCollisions(images: ProcessedImage[]): ProcessedImage[][] {
+    const groups = new Map<string, ProcessedImage[]>();
+    images.filter(img => img.suggestedName).forEach(img => {
+        const path = collisionKey(img);
+        groups.set(path, [...(groups.get(path) ?? []), img]);
+    });
+    return [...groups.values()].filter(group => group.length > 1);
+}
+
+function separatorFor(name: string): string {
+    if (name.includes('-')) return '-';
+    if (name.includes('_')) return '_';
+    return '-';
+}
+
+function takenPaths(images: ProcessedImage[]): Set<string> {
+    return new Set(images.filter(img => img.suggestedName).map(img => collisionKey(img)));
+}
+
+function withSuffix(image: ProcessedImage, taken: Set<string>): string {
+    const separator = separatorFor(image.suggestedName);
+    for (let n = 2; ; n++) {
+        const candidate = `${image.suggestedName}${separator}${n}`;
+        if (!taken.has(collisionKey(image, candidate))) return candidate;
+    }
+}
+
+function withKeyword(image: ProcessedImage, taken: Set<string>): string | null {
+    const separator = separatorFor(image.suggestedName);
+    const lowerName = image.suggestedName.toLowerCase();
+    for (const keyword of image.keywords) {
+        const slug = slugify(keyword, image.language).replace(/-/g, separator);
+        if (!slug || lowerName.includes(slug)) continue;
+        const candidate = `${image.suggestedName}${separator}${slug}`;
+        if (!taken.has(collisionKey(image, candidate))) return candidate;
+    }
+    return null;
+}
+
+// Renames every image but the first in each collision group. Returns the new
+// names by image id. The keyword strategy falls back to a numeric suffix when
+// an image has no keyword that makes its name unique.
+export function resolveCollisions(images: ProcessedImage[], strategy: 'suffix' | 'keyword'): Record<string, string> {
+    const taken = takenPaths(images);
+    const renamed: Record<string, string> = {};
+    findNameCollisions(images).forEach(group => {
+        group.slice(1).forEach(image => {
+            const name = (strategy === 'keyword' ? withKeyword(image, taken) : null) ?? withSuffix(image, taken);
+            taken.add(collisionKey(image, name));
+            renamed[image.id] = name;
+        });
+    });
+    return renamed;
+}
@@ -0,0 +1,160 @@
+
+import { isRecord, loadSetting, oneOf, saveSetting } from '../utils/storage';
+import { NAME_STYLES, type NameStyle } from './geminiService';
+
+const STORAGE_KEY = 'ai-renamer.promptProfiles';
+
+export interface PromptProfile {
+    id: string;
+    name: string;
+    // Style of the top-ranked name; other styles follow when several candidates are requested.
+    style: NameStyle;
+    // How to write that name. May use the prompt variables.
+    instruction: string;
+    // The whole prompt with ${variable} placeholders; empty uses DEFAULT_PROMPT_TEMPLATE.
+    promptTemplate: string;
+}
+
+export interface PromptProfileSettings {
+    activeId: string;
+    // User-made profiles; the presets are not stored.
+    custom: PromptProfile[];
+}
+
+// Values filled into ${...} placeholders, described for the editor.
+export const PROMPT_VARIABLES = {
+    filenameInstruction: 'What to name the image: the profile instruction, or the list of candidate styles',
+    wordLimit: 'Maximum words per filename',
+    keywordInstruction: 'How to pick keywords, from your list when you have one',
+    altTextMaxLength: 'Maximum alt text length in characters',
+    descriptionLimit: "The stock agency's description length rule, if any",
+    categoryInstruction: "The stock agency's category list, if any",
+    languageInstruction: 'Which language to write in, when not English',
+    translationInstruction: 'Keyword translations to return, if any',
+    metadataInstruction: 'Capture date, camera and location from the file, when enabled',
+    avoidInstruction: 'Names already used that must not be repeated',
+    responseFields: 'The JSON fields the answer must contain',
+    captureDate: 'Capture date as YYYY-MM-DD, or empty',
+    gpsLocation: 'GPS latitude and longitude, or empty',
+    originalName: 'The original filename without extension',
+} as const;
+
+export type PromptVariable = keyof typeof PROMPT_VARIABLES;
+
+export const DEFAULT_PROMPT_TEMPLATE = `Analyze this image. Based on its content, generate:
+1. \${filenameInstruction} Each filename must be no more than \${wordLimit} words long, in lowercase, use hyphens for spaces, and contain no special characters other than hyphens. Do not include a file extension.
+2. \${keywordInstruction}
+3. Alt text for screen readers that plainly describes what the image shows, under \${altTextMaxLength} characters. Do not start with "Image of" or "Picture of".
+4. A one to two sentence description of the image, suitable as an SEO caption.\${descriptionLimit}\${categoryInstruction}
+\${languageInstruction}\${translationInstruction}\${metadataInstruction}\${avoidInstruction}
+Return the result in JSON format with the fields \${responseFields}.`;
+
+export const PRESET_PROFILES: PromptProfile[] = [
+    {
+        id: 'preset-evocative',
+        name: 'Evocative / SEO',
+        style: 'evocative',
+        instruction: 'An evocative and descriptive, SEO-friendly filename. Instead of a literal description (e.g., "man-on-beach"), aim for a more creative title that captures the mood or story (e.g., "serene-moment-by-the-sea").',
+        promptTemplate: '',
+    },
+    {
+        id: 'preset-literal',
+        name: 'Literal / descriptive',
+        style: 'literal',
+        instruction: 'A literal, descriptive filename that plainly states the main subject and what is happening, the way someone searching a library would describe it (e.g., "man-walking-dog-on-beach"). Avoid figurative or poetic words.',
+        promptTemplate: '',
+    },
+    {
+        id: 'preset-product',
+        name: 'Product catalog',
+        style: 'product',
+        instruction: 'A product catalog filename: the product type first, then its distinguishing attributes such as color, material, pattern or cut, then the view or setting only if it matters (e.g., "white-linen-shirt-short-sleeve-front"). No mood words and no people unless they are the product.',
+        promptTemplate: '',
+    },
+    {
+        id: 'preset-archival',
+        name: 'Archival (date and location)',
+        style: 'archival',
+        instruction: 'An archival filename: the capture date as YYYY-MM-DD first when it is known, then the place, then a literal description of the subject (e.g., "2023-07-14-lisbon-alfama-tram-28"). Leave out the date or place when they are unknown rather than guessing.',
+        promptTemplate: '',
+    },
+];
+
+export const DEFAULT_PROMPT_PROFILE_SETTINGS: PromptProfileSettings = {
+    activeId: PRESET_PROFILES[0].id,
+    custom: [],
+};
+
+export const isPresetProfile = (profile: PromptProfile) => PRESET_PROFILES.some(preset => preset.id === profile.id);
+
+export function listProfiles(settings: PromptProfileSettings): PromptProfile[] {
+    return [...PRESET_PROFILES, ...settings.custom];
+}
+
+export function getActiveProfile(settings: PromptProfileSettings): PromptProfile {
+    return listProfiles(settings).find(profile => profile.id === settings.activeId) ?? PRESET_PROFILES[0];
+}
+
+export function createProfileId(): string {
+    return `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Fills ${name} placeholders. Unknown names are left as written so a typo
+// stays visible in the prompt instead of vanishing.
+export function renderPromptTemplate(template: string, values: Record<PromptVariable, string>): string {
+    return template.replace(/\$\{(\w+)\}/g, (match, name: string) =>
+        name in values ? values[name as PromptVariable] : match
+    );
+}
+
+export function findUnknownVariables(template: string): string[] {
+    const names = [...template.matchAll(/\$\{(\w+)\}/g)].map(match => match[1]);
+    return [...new Set(names.filter(name => !(name in PROMPT_VARIABLES)))];
+}
+
+const SHARE_FORMAT = 'ai-renamer-prompt-profiles';
+
+// The file shared with the team: custom profiles only, since everyone has the presets.
+export function formatProfilesFile(profiles: PromptProfile[]): string {
+    return JSON.stringify({ format: SHARE_FORMAT, version: 1, profiles }, null, 2) + '\n';
+}
+
+// Keeps the entries that have a name and an instruction; a style this
+// version doesn't know becomes literal.
+function toProfiles(entries: unknown[], id: (entry: Record<string, unknown>) => string): PromptProfile[] {
+    return entries
+        .filter(isRecord)
+        .filter(entry => typeof entry.name === 'string' && typeof entry.instruction === 'string')
+        .map(entry => ({
+            id: id(entry),
+            name: entry.name as string,
+            style: oneOf(entry.style, Object.keys(NAME_STYLES) as NameStyle[], 'literal'),
+            instruction: entry.instruction as string,
+            promptTemplate: typeof entry.promptTemplate === 'string' ? entry.promptTemplate : '',
+        }));
+}
+
+// Reads a shared profiles file (or a single profile). Imported profiles get
+// new ids so they never replace existing ones.
+export function parseProfilesFile(text: string): PromptProfile[] {
+    const data = JSON.parse(text);
+    const entries: unknown[] = data?.format === SHARE_FORMAT && Array.isArray(data.profiles) ? data.profiles : [data];
+    const profiles = toProfiles(entries, () => createProfileId());
+    if (profiles.length === 0) {
+        throw new Error("The file contains no prompt profiles.");
+    }
+    return profiles;
+}
+
+export function loadPromptProfileSettings(): PromptProfileSettings {
+    return loadSetting(STORAGE_KEY, DEFAULT_PROMPT_PROFILE_SETTINGS, stored => {
+        if (!isRecord(stored)) return DEFAULT_PROMPT_PROFILE_SETTINGS;
+        const custom = toProfiles(Array.isArray(stored.custom) ? stored.custom : [], entry => typeof entry.id === 'string' ? entry.id : createProfileId());
+        // An unknown active id is resolved to the first preset by getActiveProfile.
+        return { activeId: typeof stored.activeId === 'string' ? stored.activeId : DEFAULT_PROMPT_PROFILE_SETTINGS.activeId, custom };
+    });
+}
+
+export function savePromptProfileSettings(settings: PromptProfileSettings): void {
+    saveSetting(STORAGE_KEY, settings, 'prompt profiles');
+}
@@ -0,0 +1,101 @@
+
+import { ApiError, FinishReason, GoogleGenAI, MediaModality, type GenerateContentResponse, type GenerateContentResponseUsageMetadata } from "@google/genai";
+import { errorFromStatus, NetworkError, PayloadTooLargeError, SafetyBlockError } from '../aiErrors';
+import type { TokenUsage, VisionProvider } from './types';
+
+// Gemini rejects requests over 20 MB with inline image data.
+const MAX_INLINE_REQUEST_BYTES = 20 * 1024 * 1024;
+
+const BLOCKING_FINISH_REASONS: string[] = [
+    FinishReason.SAFETY,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.BLOCKLIST,
+    FinishReason.IMAGE_SAFETY,
+    FinishReason.SPII,
+];
+
+const clients = new Map<string, GoogleGenAI>();
+
+function getClient(apiKey: string): GoogleGenAI {
+    let client = clients.get(apiKey);
+    if (!client) {
+        client = new GoogleGenAI({ apiKey });
+        clients.set(apiKey, client);
+    }
+    return client;
+}
+
+// Thinking tokens are billed as output.
+function toTokenUsage(metadata: GenerateContentResponseUsageMetadata): TokenUsage {
+    const imageTokens = (metadata.promptTokensDetails ?? [])
+        .filter(detail => detail.modality === MediaModality.IMAGE)
+        .reduce((sum, detail) => sum + (detail.tokenCount ?? 0), 0);
+    return {
+        promptTokens: (metadata.promptTokenCount ?? 0) - imageTokens,
+        imageTokens,
+        outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+    };
+}
+
+// The error body carries the wait as a RetryInfo detail, e.g. "retryDelay": "17s".
+function parseRetryDelay(message: string): number | null {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Number(match[1]) * 1000 : null;
+}
+
+// A blocked prompt or answer comes back as a normal response with no text.
+function findBlockReason(response: GenerateContentResponse): string | null {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) return blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    return finishReason && BLOCKING_FINISH_REASONS.includes(finishReason) ? finishReason : null;
+}
+
+export const geminiProvider: VisionProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    validate: (settings) => settings.gemini.apiKey
+        ? null
+        : "API key is not configured. Please set the API_KEY environment variable or enter a Gemini key in the settings.",
+    generate: async (request, settings) => {
+        const { apiKey, model } = settings.gemini;
+        if (request.image.data.length + request.prompt.length > MAX_INLINE_REQUEST_BYTES) {
+            throw new PayloadTooLargeError(`The image is ${(request.image.data.length * 0.75 / 1024 / 1024).toFixed(1)} MB, too large to send to Gemini inline (20 MB limit).`);
+        }
+        let response: GenerateContentResponse;
+        try {
+            response = await getClient(apiKey).models.generateContent({
+                model,
+                contents: {
+                    parts: [
+                        { text: request.prompt },
+                        { inlineData: { mimeType: request.image.mimeType, data: request.image.data } },
+                    ]
+                },
+                config: {
+                    responseMimeType: "application/json",
+                    responseJsonSchema: request.schema,
+                }
+            });
+        } catch (error) {
+            if (error instanceof ApiError) {
+                throw errorFromStatus(error.status, error.message, parseRetryDelay(error.message), request.image.mimeType);
+            }
+            // The SDK passes fetch's rejection through when no response arrived.
+            if (error instanceof TypeError || (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError'))) {
+                throw new NetworkError();
+            }
+            throw error;
+        }
+
+        const blockReason = findBlockReason(response);
+        if (blockReason) {
+            throw new SafetyBlockError(blockReason.toLowerCase().replace(/_/g, ' '));
+        }
+
+        return {
+            text: response.text ?? '',
+            usage: response.usageMetadata ? toTokenUsage(response.usageMetadata) : undefined,
+        };
+    },
+};
@@ -0,0 +1,65 @@
+
+import { isRecord, loadSetting, mergeDefaults, oneOf, saveSetting } from '../../utils/storage';
+import type { ProviderId, ProviderSettings, VisionProvider } from './types';
+import { geminiProvider } from './geminiProvider';
+import { openaiProvider } from './openaiProvider';
+import { ollamaProvider } from './ollamaProvider';
+import { mockProvider } from './mockProvider';
+
+export * from './types';
+
+export const providers: Record<ProviderId, VisionProvider> = {
+    gemini: geminiProvider,
+    openai: openaiProvider,
+    ollama: ollamaProvider,
+    mock: mockProvider,
+};
+
+const SETTINGS_STORAGE_KEY = 'ai-renamer.providerSettings';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    providerId: 'gemini',
+    gemini: {
+        // It is assumed that process.env.API_KEY is configured in the environment.
+        apiKey: process.env.API_KEY ?? '',
+        model: 'gemini-2.5-flash',
+    },
+    openai: {
+        baseUrl: 'https://api.openai.com/v1',
+        apiKey: '',
+        model: 'gpt-4o-mini',
+    },
+    ollama: {
+        baseUrl: 'http://localhost:11434',
+        model: 'llava',
+    },
+};
+
+export function getProvider(settings: ProviderSettings): VisionProvider {
+    return providers[settings.providerId] ?? providers.gemini;
+}
+
+export function loadProviderSettings(): ProviderSettings {
+    return loadSetting(SETTINGS_STORAGE_KEY, DEFAULT_PROVIDER_SETTINGS, stored => {
+        const parsed = isRecord(stored) ? stored : {};
+        const gemini = mergeDefaults(parsed.gemini, DEFAULT_PROVIDER_SETTINGS.gemini);
+        return {
+            // An id from another version of the app falls back to the default.
+            providerId: oneOf(parsed.providerId, Object.keys(providers) as ProviderId[], DEFAULT_PROVIDER_SETTINGS.providerId),
+            gemini: {
+                ...gemini,
+                // Fall back to the build-time key when none was saved.
+                apiKey: gemini.apiKey || DEFAULT_PROVIDER_SETTINGS.gemini.apiKey,
+            },
+            openai: mergeDefaults(parsed.openai, DEFAULT_PROVIDER_SETTINGS.openai),
+            ollama: mergeDefaults(parsed.ollama, DEFAULT_PROVIDER_SETTINGS.ollama),
+        };
+    });
+}
+
+// The build-time key is never stored, so a key configured later in the
+// environment isn't overridden by an old copy.
+export function saveProviderSettings(settings: ProviderSettings): void {
+    const isBuildTimeKey = settings.gemini.apiKey === DEFAULT_PROVIDER_SETTINGS.gemini.apiKey;
+    saveSetting(SETTINGS_STORAGE_KEY, isBuildTimeKey ? { ...settings, gemini: { ...settings.gemini, apiKey: '' } } : settings, 'provider settings');
+}
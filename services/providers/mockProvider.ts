@@ -0,0 +1,58 @@
+
+import type { JsonSchema, VisionProvider } from './types';
+
+const WORDS = ['amber', 'quiet', 'harbor', 'meadow', 'copper', 'lantern', 'drift', 'summit', 'velvet', 'orchard', 'tide', 'ember'];
+
+// FNV-1a, so the same image always yields the same answer.
+function hash(input: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        h ^= input.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+function pickWords(seed: number, count: number): string[] {
+    return Array.from({ length: count }, (_, i) => WORDS[(seed + i * 7) % WORDS.length]);
+}
+
+// Builds a value that satisfies the requested schema, so the mock keeps
+// working as fields are added to the response contract.
+function fakeValue(schema: JsonSchema, seed: number, key: string): unknown {
+    if (Array.isArray(schema.enum)) {
+        return schema.enum[seed % schema.enum.length];
+    }
+    switch (schema.type) {
+        case 'object': {
+            const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+            return Object.fromEntries(
+                Object.entries(properties).map(([name, child], i) => [name, fakeValue(child, seed + i, name)])
+            );
+        }
+        case 'array':
+            return pickWords(seed, typeof schema.maxItems === 'number' ? schema.maxItems : 3).map((_, i) => fakeValue((schema.items ?? { type: 'string' }) as JsonSchema, seed + i, key));
+        case 'number':
+        case 'integer':
+            return seed % 10;
+        case 'boolean':
+            return seed % 2 === 0;
+        default:
+            return key === 'filename' ? `mock-${pickWords(seed, 2).join('-')}` : pickWords(seed, 1)[0];
+    }
+}
+
+export const mockProvider: VisionProvider = {
+    id: 'mock',
+    label: 'Mock (offline, deterministic)',
+    validate: () => null,
+    generate: async (request) => {
+        const seed = hash(request.image.data);
+        const text = JSON.stringify(fakeValue(request.schema, seed, ''));
+        // Rough counts (four characters a token, Gemini's 258 per image) so usage tracking can be tried offline.
+        return {
+            text,
+            usage: { promptTokens: Math.ceil(request.prompt.length / 4), imageTokens: 258, outputTokens: Math.ceil(text.length / 4) },
+        };
+    },
+};
@@ -0,0 +1,51 @@
+
+import { errorFromResponse, fetchOrThrow, readJson } from '../aiErrors';
+import type { VisionProvider } from './types';
+
+interface OllamaChatResponse {
+    message?: { content?: string };
+    prompt_eval_count?: number;
+    eval_count?: number;
+}
+
+// Talks to Ollama's native chat endpoint, which takes images as a separate
+// base64 array and accepts a JSON schema in `format`. llama.cpp's server
+// speaks the OpenAI protocol instead and should use that provider.
+export const ollamaProvider: VisionProvider = {
+    id: 'ollama',
+    label: 'Ollama (local)',
+    validate: (settings) => settings.ollama.baseUrl && settings.ollama.model
+        ? null
+        : "The Ollama provider needs a server URL and a model name.",
+    generate: async (request, settings) => {
+        const { baseUrl, model } = settings.ollama;
+        const response = await fetchOrThrow(`${baseUrl.replace(/\/+$/, '')}/api/chat`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                model,
+                stream: false,
+                format: request.schema,
+                messages: [{
+                    role: 'user',
+                    content: request.prompt,
+                    images: [request.image.data],
+                }],
+            }),
+        });
+
+        if (!response.ok) {
+            throw await errorFromResponse(response, request.image.mimeType);
+        }
+
+        const json = await readJson<OllamaChatResponse>(response);
+        return {
+            text: json.message?.content ?? '',
+            usage: {
+                promptTokens: json.prompt_eval_count ?? 0,
+                imageTokens: 0,
+                outputTokens: json.eval_count ?? 0,
+            },
+        };
+    },
+};
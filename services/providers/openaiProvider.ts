@@ -0,0 +1,61 @@
+
+import { errorFromResponse, fetchOrThrow, readJson, SafetyBlockError } from '../aiErrors';
+import type { VisionProvider } from './types';
+
+interface ChatCompletionResponse {
+    choices?: { message?: { content?: string | null; refusal?: string | null }; finish_reason?: string }[];
+    usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+export const openaiProvider: VisionProvider = {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    validate: (settings) => settings.openai.baseUrl && settings.openai.model
+        ? null
+        : "The OpenAI-compatible provider needs a base URL and a model name.",
+    generate: async (request, settings) => {
+        const { baseUrl, apiKey, model } = settings.openai;
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (apiKey) {
+            headers['Authorization'] = `Bearer ${apiKey}`;
+        }
+
+        const response = await fetchOrThrow(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model,
+                messages: [{
+                    role: 'user',
+                    content: [
+                        { type: 'text', text: request.prompt },
+                        { type: 'image_url', image_url: { url: `data:${request.image.mimeType};base64,${request.image.data}` } },
+                    ],
+                }],
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: 'image_details', schema: request.schema },
+                },
+            }),
+        });
+
+        if (!response.ok) {
+            throw await errorFromResponse(response, request.image.mimeType);
+        }
+
+        const json = await readJson<ChatCompletionResponse>(response);
+        const choice = json.choices?.[0];
+        if (choice?.message?.refusal || choice?.finish_reason === 'content_filter') {
+            throw new SafetyBlockError(choice.message?.refusal ?? undefined);
+        }
+        return {
+            text: choice?.message?.content ?? '',
+            // The image is counted in prompt_tokens.
+            usage: json.usage && {
+                promptTokens: json.usage.prompt_tokens ?? 0,
+                imageTokens: 0,
+                outputTokens: json.usage.completion_tokens ?? 0,
+            },
+        };
+    },
+};
@@ -0,0 +1,62 @@
+
+export type ProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+// A plain JSON Schema object. Each provider translates it into whatever
+// structured-output option its API understands.
+export type JsonSchema = Record<string, unknown>;
+
+export interface VisionRequest {
+    prompt: string;
+    image: {
+        mimeType: string;
+        // Raw base64 without the `data:` URL prefix.
+        data: string;
+    };
+    schema: JsonSchema;
+}
+
+// Token counts as reported by the provider. Providers that don't report the
+// image separately include it in promptTokens.
+export interface TokenUsage {
+    promptTokens: number;
+    imageTokens: number;
+    outputTokens: number;
+}
+
+export interface VisionResponse {
+    // The model's JSON answer as text; parsing is left to the naming core.
+    text: string;
+    // Omitted when the provider doesn't report usage.
+    usage?: TokenUsage;
+}
+
+export interface GeminiSettings {
+    apiKey: string;
+    model: string;
+}
+
+export interface OpenAISettings {
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+}
+
+export interface OllamaSettings {
+    baseUrl: string;
+    model: string;
+}
+
+export interface ProviderSettings {
+    providerId: ProviderId;
+    gemini: GeminiSettings;
+    openai: OpenAISettings;
+    ollama: OllamaSettings;
+}
+
+export interface VisionProvider {
+    id: ProviderId;
+    label: string;
+    // Returns a user-facing message when the settings can't be used, or null.
+    validate: (settings: ProviderSettings) => string | null;
+    generate: (request: VisionRequest, settings: ProviderSettings) => Promise<VisionResponse>;
+}
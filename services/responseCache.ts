@@ -0,0 +1,116 @@
+
+import { openDatabase, requestToPromise, transactionDone } from '../utils/indexedDb';
+import { sha256Hex } from '../utils/imageHash';
+import { generateImageDetails, type GenerationOptions, type ImageDetails } from './geminiService';
+import { hasMetadata } from './metadataReader';
+
+const DB_NAME = 'ai-renamer-cache';
+const DB_VERSION = 1;
+
+interface CachedResponse {
+    key: string;
+    details: ImageDetails;
+    createdAt: number;
+    // Approximate size of the stored details, for the settings panel.
+    bytes: number;
+}
+
+export interface ResponseCacheStats {
+    entries: number;
+    bytes: number;
+}
+
+function openCacheDatabase(): Promise<IDBDatabase> {
+    return openDatabase(DB_NAME, DB_VERSION, (db, oldVersion) => {
+        if (oldVersion < 1) {
+            db.createObjectStore('responses', { keyPath: 'key' });
+        }
+    });
+}
+
+// Hashes the image bytes together with every setting that changes the prompt
+// or the model's answer. API keys and server addresses are left out, so
+// rotating a key keeps the cache.
+export async function getResponseCacheKey(file: Blob, options: GenerationOptions, contentHash?: string | null): Promise<string> {
+    const { providerSettings: settings } = options;
+    const model = settings.providerId === 'mock' ? '' : settings[settings.providerId].model;
+    const inputs = [
+        contentHash ?? await sha256Hex(file),
+        settings.providerId,
+        model,
+        options.wordLimit,
+        options.userKeywords,
+        options.keywordSynonyms ?? [],
+        options.unmatchedKeywords ?? 'flag',
+        options.keywordCount ?? null,
+        options.descriptionMaxLength ?? null,
+        options.categories ?? [],
+        // The metadata comes from the same bytes; only whether it was sent matters.
+        hasMetadata(options.metadata),
+        options.avoidNames ?? [],
+        options.resize?.enabled ? options.resize : null,
+        options.language ?? 'en',
+        options.keywordVariants ?? [],
+        options.candidateCount ?? 1,
+        options.profile ? [options.profile.style, options.profile.instruction, options.profile.promptTemplate] : null,
+    ];
+    return sha256Hex(new Blob([JSON.stringify(inputs)]));
+}
+
+// Returns the stored details marked as cached, or null when there are none or
+// IndexedDB can't be used.
+export async function readCachedDetails(key: string): Promise<ImageDetails | null> {
+    try {
+        const db = await openCacheDatabase();
+        const entry = await requestToPromise<CachedResponse | undefined>(db.transaction('responses').objectStore('responses').get(key));
+        // Nothing was uploaded or paid for a cached result.
+        return entry ? { ...entry.details, fromCache: true, uploadBytes: 0, usage: null } : null;
+    } catch (error) {
+        console.error("Failed to read the response cache:", error);
+        return null;
+    }
+}
+
+export async function writeCachedDetails(key: string, details: ImageDetails): Promise<void> {
+    try {
+        const db = await openCacheDatabase();
+        const tx = db.transaction('responses', 'readwrite');
+        const done = transactionDone(tx);
+        const stored = { ...details, fromCache: false };
+        const entry: CachedResponse = { key, details: stored, createdAt: Date.now(), bytes: JSON.stringify(stored).length };
+        tx.objectStore('responses').put(entry);
+        await done;
+    } catch (error) {
+        console.error("Failed to save to the response cache:", error);
+    }
+}
+
+// Looks up the cached details for the image and settings before calling the
+// AI, and stores fresh results. `force` skips the lookup but still replaces
+// the stored result.
+export async function generateWithCache(
+    file: File,
+    options: GenerationOptions,
+    { contentHash, force = false }: { contentHash?: string | null; force?: boolean } = {}
+): Promise<ImageDetails> {
+    const key = await getResponseCacheKey(file, options, contentHash);
+    const cached = force ? null : await readCachedDetails(key);
+    if (cached) return cached;
+    const details = await generateImageDetails(file, options);
+    await writeCachedDetails(key, details);
+    return details;
+}
+
+export async function getResponseCacheStats(): Promise<ResponseCacheStats> {
+    const db = await openCacheDatabase();
+    const entries = await requestToPromise<CachedResponse[]>(db.transaction('responses').objectStore('responses').getAll());
+    return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0) };
+}
+
+export async function clearResponseCache(): Promise<void> {
+    const db = await openCacheDatabase();
+    const tx = db.transaction('responses', 'readwrite');
+    const done = transactionDone(tx);
+    tx.objectStore('responses').clear();
+    await done;
+}
@@ -0,0 +1,188 @@
+
+import type { ProcessedImage } from '../App';
+import { openDatabase, requestToPromise, transactionDone } from '../utils/indexedDb';
+import { EMPTY_USAGE } from './usage';
+import { ERROR_HINTS, type ImageError } from './aiErrors';
+
+const DB_NAME = 'ai-renamer-sessions';
+const DB_VERSION = 1;
+const ACTIVE_SESSION_KEY = 'ai-renamer.activeSessionId';
+
+export interface SessionSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    imageCount: number;
+}
+
+export interface SessionRecord extends SessionSummary {
+    userKeywords: string;
+    wordLimit: number;
+}
+
+// Everything about an image except the blob and the runtime-only fields.
+type StoredImage = Omit<ProcessedImage, 'file' | 'imageUrl' | 'isLoading'> & {
+    sessionId: string;
+    order: number;
+};
+
+interface StoredFile {
+    sessionId: string;
+    id: string;
+    file: File;
+}
+
+function openSessionDatabase(): Promise<IDBDatabase> {
+    return openDatabase(DB_NAME, DB_VERSION, (db, oldVersion) => {
+        if (oldVersion < 1) {
+            db.createObjectStore('sessions', { keyPath: 'id' });
+            // Metadata is rewritten on every save; blobs live in their own
+            // store so they are only written once per image.
+            db.createObjectStore('images', { keyPath: ['sessionId', 'id'] }).createIndex('sessionId', 'sessionId');
+            db.createObjectStore('files', { keyPath: ['sessionId', 'id'] }).createIndex('sessionId', 'sessionId');
+        }
+    });
+}
+
+export function createSession(name: string, settings: { userKeywords: string; wordLimit: number }): SessionRecord {
+    const now = Date.now();
+    return {
+        id: `session-${now}-${Math.random().toString(36).slice(2, 8)}`,
+        name,
+        createdAt: now,
+        updatedAt: now,
+        imageCount: 0,
+        ...settings,
+    };
+}
+
+export async function listSessions(): Promise<SessionSummary[]> {
+    const db = await openSessionDatabase();
+    const sessions = await requestToPromise<SessionRecord[]>(
+        db.transaction('sessions').objectStore('sessions').getAll()
+    );
+    return sessions
+        .map(({ id, name, createdAt, updatedAt, imageCount }) => ({ id, name, createdAt, updatedAt, imageCount }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveSession(session: SessionRecord, images: ProcessedImage[]): Promise<void> {
+    const db = await openSessionDatabase();
+    const tx = db.transaction(['sessions', 'images', 'files'], 'readwrite');
+    const done = transactionDone(tx);
+    const imageStore = tx.objectStore('images');
+    const fileStore = tx.objectStore('files');
+
+    const currentIds = new Set(images.map(img => img.id));
+    const [storedImageKeys, storedFileKeys] = await Promise.all([
+        requestToPromise(imageStore.index('sessionId').getAllKeys(session.id)),
+        requestToPromise(fileStore.index('sessionId').getAllKeys(session.id)),
+    ]);
+
+    for (const key of storedImageKeys) {
+        if (!currentIds.has((key as string[])[1])) imageStore.delete(key);
+    }
+    const storedFileIds = new Set<string>();
+    for (const key of storedFileKeys) {
+        const id = (key as string[])[1];
+        if (currentIds.has(id)) {
+            storedFileIds.add(id);
+        } else {
+            fileStore.delete(key);
+        }
+    }
+
+    images.forEach((image, order) => {
+        const { file, imageUrl, isLoading, ...rest } = image;
+        const stored: StoredImage = { ...rest, sessionId: session.id, order };
+        imageStore.put(stored);
+        if (!storedFileIds.has(image.id)) {
+            const storedFile: StoredFile = { sessionId: session.id, id: image.id, file };
+            fileStore.put(storedFile);
+        }
+    });
+
+    const record: SessionRecord = { ...session, updatedAt: Date.now(), imageCount: images.length };
+    tx.objectStore('sessions').put(record);
+    await done;
+}
+
+// Older versions saved errors as plain messages.
+function toStoredError(error: ImageError | string | null | undefined): ImageError | null {
+    if (!error) return null;
+    return typeof error === 'string' ? { kind: 'unknown', message: error, hint: ERROR_HINTS.unknown } : error;
+}
+
+export async function loadSession(id: string): Promise<{ session: SessionRecord; images: ProcessedImage[] } | null> {
+    const db = await openSessionDatabase();
+    const tx = db.transaction(['sessions', 'images', 'files']);
+    const [session, storedImages, storedFiles] = await Promise.all([
+        requestToPromise<SessionRecord | undefined>(tx.objectStore('sessions').get(id)),
+        requestToPromise<StoredImage[]>(tx.objectStore('images').index('sessionId').getAll(id)),
+        requestToPromise<StoredFile[]>(tx.objectStore('files').index('sessionId').getAll(id)),
+    ]);
+    if (!session) return null;
+
+    const filesById = new Map(storedFiles.map(entry => [entry.id, entry.file]));
+    const images = storedImages
+        .sort((a, b) => a.order - b.order)
+        .flatMap(({ sessionId, order, ...stored }) => {
+            const file = filesById.get(stored.id);
+            if (!file) return [];
+            const image: ProcessedImage = {
+                ...stored,
+                // Sessions saved by older versions lack these fields.
+                aiName: stored.aiName ?? stored.suggestedName,
+                nameHistory: stored.nameHistory ?? [],
+                metadata: stored.metadata ?? null,
+                contentHash: stored.contentHash ?? null,
+                perceptualHash: stored.perceptualHash ?? null,
+                altText: stored.altText ?? '',
+                description: stored.description ?? '',
+                language: stored.language ?? 'en',
+                keywordTranslations: stored.keywordTranslations ?? {},
+                flaggedKeywords: stored.flaggedKeywords ?? [],
+                category: stored.category ?? '',
+                relativePath: stored.relativePath ?? file.name,
+                fromCache: stored.fromCache ?? false,
+                usage: stored.usage ?? EMPTY_USAGE,
+                error: toStoredError(stored.error),
+                file,
+                imageUrl: URL.createObjectURL(file),
+                isLoading: false,
+            };
+            return [image];
+        });
+
+    return { session, images };
+}
+
+export async function deleteSession(id: string): Promise<void> {
+    const db = await openSessionDatabase();
+    const tx = db.transaction(['sessions', 'images', 'files'], 'readwrite');
+    const done = transactionDone(tx);
+    tx.objectStore('sessions').delete(id);
+    for (const storeName of ['images', 'files']) {
+        const store = tx.objectStore(storeName);
+        const keys = await requestToPromise(store.index('sessionId').getAllKeys(id));
+        keys.forEach(key => store.delete(key));
+    }
+    await done;
+}
+
+export function getActiveSessionId(): string | null {
+    try {
+        return localStorage.getItem(ACTIVE_SESSION_KEY);
+    } catch {
+        return null;
+    }
+}
+
+export function setActiveSessionId(id: string): void {
+    try {
+        localStorage.setItem(ACTIVE_SESSION_KEY, id);
+    } catch (error) {
+        console.error("Failed to remember the active session:", error);
+    }
+}
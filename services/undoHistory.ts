@@ -0,0 +1,115 @@
+
+import type { ProcessedImage } from '../App';
+
+// Entries beyond this are dropped from the bottom of the undo stack.
+const HISTORY_LIMIT = 100;
+// Consecutive edits with the same key within this window become one entry,
+// so typing a name is undone as a whole rather than letter by letter.
+const COALESCE_WINDOW_MS = 1500;
+
+export interface ImageChange {
+    id: string;
+    // Only the fields that changed, with their old and new values.
+    before: Partial<ProcessedImage>;
+    after: Partial<ProcessedImage>;
+}
+
+export interface RemovedImage {
+    image: ProcessedImage;
+    // Position in the queue before removal, used to put it back in place.
+    index: number;
+}
+
+export interface HistoryEntry {
+    id: number;
+    label: string;
+    timestamp: number;
+    changes: ImageChange[];
+    removed: RemovedImage[];
+    coalesceKey?: string;
+}
+
+export interface HistoryState {
+    past: HistoryEntry[];
+    future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+let nextEntryId = 1;
+
+// Records the difference between two versions of the queue as field-level
+// patches. Storing patches instead of whole snapshots means undoing a manual
+// edit never reverts AI results that arrived in the meantime.
+export function createEntry(label: string, before: ProcessedImage[], after: ProcessedImage[], coalesceKey?: string): HistoryEntry | null {
+    const afterById = new Map(after.map(img => [img.id, img]));
+    const changes: ImageChange[] = [];
+    const removed: RemovedImage[] = [];
+
+    before.forEach((image, index) => {
+        const updated = afterById.get(image.id);
+        if (!updated) {
+            removed.push({ image, index });
+            return;
+        }
+        if (updated === image) return;
+        const change: ImageChange = { id: image.id, before: {}, after: {} };
+        (Object.keys(updated) as (keyof ProcessedImage)[]).forEach(key => {
+            if (updated[key] !== image[key]) {
+                (change.before as Record<string, unknown>)[key] = image[key];
+                (change.after as Record<string, unknown>)[key] = updated[key];
+            }
+        });
+        if (Object.keys(change.after).length > 0) changes.push(change);
+    });
+
+    if (changes.length === 0 && removed.length === 0) return null;
+    return { id: nextEntryId++, label, timestamp: Date.now(), changes, removed, coalesceKey };
+}
+
+function patchImages(images: ProcessedImage[], changes: ImageChange[], side: 'before' | 'after'): ProcessedImage[] {
+    const patches = new Map(changes.map(change => [change.id, change[side]]));
+    return images.map(img => patches.has(img.id) ? { ...img, ...patches.get(img.id) } : img);
+}
+
+export function redoEntry(images: ProcessedImage[], entry: HistoryEntry): ProcessedImage[] {
+    const removedIds = new Set(entry.removed.map(r => r.image.id));
+    return patchImages(images.filter(img => !removedIds.has(img.id)), entry.changes, 'after');
+}
+
+export function undoEntry(images: ProcessedImage[], entry: HistoryEntry): ProcessedImage[] {
+    const restored = [...images];
+    // Reinsert in ascending order so each saved index lines up again.
+    [...entry.removed].sort((a, b) => a.index - b.index).forEach(({ image, index }) => {
+        if (!restored.some(img => img.id === image.id)) {
+            restored.splice(Math.min(index, restored.length), 0, image);
+        }
+    });
+    return patchImages(restored, entry.changes, 'before');
+}
+
+function mergeEntries(previous: HistoryEntry, next: HistoryEntry): HistoryEntry {
+    const changes = previous.changes.map(change => ({ ...change }));
+    next.changes.forEach(change => {
+        const existing = changes.find(c => c.id === change.id);
+        if (existing) {
+            // Keep the oldest "before" value of each field and the newest "after".
+            existing.before = { ...change.before, ...existing.before };
+            existing.after = { ...existing.after, ...change.after };
+        } else {
+            changes.push(change);
+        }
+    });
+    return { ...next, id: previous.id, changes, removed: [...previous.removed, ...next.removed] };
+}
+
+// Pushes an entry onto the undo stack and clears the redo stack.
+export function recordEntry(state: HistoryState, entry: HistoryEntry): HistoryState {
+    const last = state.past[state.past.length - 1];
+    const canMerge = last && entry.coalesceKey && last.coalesceKey === entry.coalesceKey
+        && entry.timestamp - last.timestamp < COALESCE_WINDOW_MS;
+    const past = canMerge
+        ? [...state.past.slice(0, -1), mergeEntries(last, entry)]
+        : [...state.past, entry];
+    return { past: past.slice(-HISTORY_LIMIT), future: [] };
+}
@@ -0,0 +1,95 @@
+
+import { loadSetting, saveSetting } from '../utils/storage';
+import type { ProviderSettings, TokenUsage } from './providers';
+
+const BUDGET_STORAGE_KEY = 'ai-renamer.budget';
+
+// US dollars per million tokens. Image tokens are billed as input.
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+// List prices for the standard tier, used for estimates only. Models are
+// matched by the longest entry their name starts with, so dated and preview
+// versions share their family's price.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+};
+
+const FREE: ModelPrice = { input: 0, output: 0 };
+
+export interface UsageTotals extends TokenUsage {
+    requests: number;
+    // Estimated US dollars.
+    cost: number;
+    // Requests to models without a known price; their tokens count but add no cost.
+    unpricedRequests: number;
+}
+
+export const EMPTY_USAGE: UsageTotals = {
+    promptTokens: 0,
+    imageTokens: 0,
+    outputTokens: 0,
+    requests: 0,
+    cost: 0,
+    unpricedRequests: 0,
+};
+
+// Local and offline providers cost nothing; null means the model isn't in the table.
+export function getModelPrice(settings: ProviderSettings): ModelPrice | null {
+    if (settings.providerId === 'mock' || settings.providerId === 'ollama') return FREE;
+    const model = settings[settings.providerId].model.trim().toLowerCase();
+    const match = Object.keys(MODEL_PRICES)
+        .filter(name => model === name || model.startsWith(`${name}-`))
+        .sort((a, b) => b.length - a.length)[0];
+    return match ? MODEL_PRICES[match] : null;
+}
+
+export function toUsageTotals(usage: TokenUsage, price: ModelPrice | null): UsageTotals {
+    const cost = price
+        ? ((usage.promptTokens + usage.imageTokens) * price.input + usage.outputTokens * price.output) / 1_000_000
+        : 0;
+    return { ...usage, requests: 1, cost, unpricedRequests: price ? 0 : 1 };
+}
+
+export function addUsage(a: UsageTotals, b: UsageTotals): UsageTotals {
+    return {
+        promptTokens: a.promptTokens + b.promptTokens,
+        imageTokens: a.imageTokens + b.imageTokens,
+        outputTokens: a.outputTokens + b.outputTokens,
+        requests: a.requests + b.requests,
+        cost: a.cost + b.cost,
+        unpricedRequests: a.unpricedRequests + b.unpricedRequests,
+    };
+}
+
+export const totalTokens = (usage: TokenUsage) => usage.promptTokens + usage.imageTokens + usage.outputTokens;
+
+// Small amounts keep enough digits to tell single images apart.
+export function formatCost(dollars: number): string {
+    return `$${dollars.toFixed(dollars > 0 && dollars < 1 ? 4 : 2)}`;
+}
+
+export function describeUsage(usage: UsageTotals): string {
+    return `${usage.promptTokens.toLocaleString()} prompt, ${usage.imageTokens.toLocaleString()} image and ${usage.outputTokens.toLocaleString()} output tokens over ${usage.requests} ${usage.requests === 1 ? 'request' : 'requests'}`
+        + (usage.unpricedRequests > 0 ? `; ${usage.unpricedRequests} with no known price are not in the cost` : '');
+}
+
+// Spending limit in US dollars for Generate All, or null for none.
+export function loadBudget(): number | null {
+    return loadSetting<number | null>(BUDGET_STORAGE_KEY, null, stored => typeof stored === 'number' && stored > 0 ? stored : null);
+}
+
+export function saveBudget(budget: number | null): void {
+    saveSetting(BUDGET_STORAGE_KEY, budget, 'budget');
+}
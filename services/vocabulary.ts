@@ -0,0 +1,183 @@
+
+import { formatCsv, parseCsv } from '../utils/csv';
+import { isRecord, loadSetting, mergeDefaults, saveSetting } from '../utils/storage';
+
+const STORAGE_KEY = 'ai-renamer.vocabulary';
+// Lightroom's separator between levels of a keyword path.
+const PATH_SEPARATOR = '|';
+
+export interface VocabularyTerm {
+    name: string;
+    synonyms: string[];
+    children: VocabularyTerm[];
+    // Lightroom's [bracketed] keywords organise the tree but are never assigned.
+    isCategory: boolean;
+}
+
+export interface Vocabulary {
+    terms: VocabularyTerm[];
+    // Assigning a keyword also assigns its (non-category) ancestors.
+    includeAncestors: boolean;
+}
+
+export interface VocabularyEntry {
+    name: string;
+    ancestors: string[];
+}
+
+export const EMPTY_VOCABULARY: Vocabulary = { terms: [], includeAncestors: false };
+
+function createTerm(label: string): VocabularyTerm {
+    const isCategory = /^\[.*\]$/.test(label);
+    return { name: isCategory ? label.slice(1, -1).trim() : label, synonyms: [], children: [], isCategory };
+}
+
+// Reads Lightroom's keyword export: one keyword per line, nested with tabs,
+// {synonyms} on the line below their keyword and [categories] in brackets.
+export function parseLightroomKeywords(text: string): VocabularyTerm[] {
+    const roots: VocabularyTerm[] = [];
+    const stack: VocabularyTerm[] = [];
+
+    text.replace(/^﻿/, '').split(/\r?\n/).forEach(line => {
+        const label = line.trim();
+        if (!label) return;
+        const depth = line.match(/^\t*/)![0].length;
+
+        if (/^\{.*\}$/.test(label)) {
+            stack[depth - 1]?.synonyms.push(label.slice(1, -1).trim());
+            return;
+        }
+
+        const term = createTerm(label);
+        const parent = depth > 0 ? stack[Math.min(depth, stack.length) - 1] : undefined;
+        (parent ? parent.children : roots).push(term);
+        stack.length = parent ? stack.indexOf(parent) + 1 : 0;
+        stack.push(term);
+    });
+    return roots;
+}
+
+export function formatLightroomKeywords(terms: VocabularyTerm[]): string {
+    const lines: string[] = [];
+    const walk = (term: VocabularyTerm, depth: number) => {
+        const indent = '\t'.repeat(depth);
+        lines.push(`${indent}${term.isCategory ? `[${term.name}]` : term.name}`);
+        term.synonyms.forEach(synonym => lines.push(`${indent}\t{${synonym}}`));
+        term.children.forEach(child => walk(child, depth + 1));
+    };
+    terms.forEach(term => walk(term, 0));
+    return lines.join('\n') + '\n';
+}
+
+// Reads "Keyword Path,Synonyms" rows such as "Animals|Mammals|Dog","Hound;Canine".
+export function parseVocabularyCsv(text: string): VocabularyTerm[] {
+    const roots: VocabularyTerm[] = [];
+    const rows = parseCsv(text);
+    const dataRows = rows[0]?.[0]?.trim().toLowerCase() === 'keyword path' ? rows.slice(1) : rows;
+
+    dataRows.forEach(([path = '', synonyms = '']) => {
+        let siblings = roots;
+        let term: VocabularyTerm | undefined;
+        path.split(PATH_SEPARATOR).map(s => s.trim()).filter(Boolean).forEach(segment => {
+            const candidate = createTerm(segment);
+            term = siblings.find(t => t.name === candidate.name) ?? candidate;
+            if (term === candidate) siblings.push(term);
+            siblings = term.children;
+        });
+        if (term) {
+            const known = term.synonyms;
+            synonyms.split(';').map(s => s.trim()).filter(s => s && !known.includes(s)).forEach(s => known.push(s));
+        }
+    });
+    return roots;
+}
+
+export function formatVocabularyCsv(terms: VocabularyTerm[]): string {
+    const rows: string[][] = [['Keyword Path', 'Synonyms']];
+    const walk = (term: VocabularyTerm, path: string[]) => {
+        const segments = [...path, term.isCategory ? `[${term.name}]` : term.name];
+        rows.push([segments.join(PATH_SEPARATOR), term.synonyms.join(';')]);
+        term.children.forEach(child => walk(child, segments));
+    };
+    terms.forEach(term => walk(term, []));
+    return formatCsv(rows) + '\r\n';
+}
+
+export function parseVocabularyFile(name: string, text: string): VocabularyTerm[] {
+    return name.toLowerCase().endsWith('.csv') ? parseVocabularyCsv(text) : parseLightroomKeywords(text);
+}
+
+// Maps every keyword and synonym (lowercased) to its canonical keyword and the
+// keywords above it. The first occurrence wins when a name appears twice.
+export function buildVocabularyIndex(terms: VocabularyTerm[]): Map<string, VocabularyEntry> {
+    const index = new Map<string, VocabularyEntry>();
+    const walk = (term: VocabularyTerm, ancestors: string[]) => {
+        if (!term.isCategory) {
+            const entry = { name: term.name, ancestors };
+            [term.name, ...term.synonyms].forEach(label => {
+                const key = label.toLowerCase();
+                if (!index.has(key)) index.set(key, entry);
+            });
+        }
+        const childAncestors = term.isCategory ? ancestors : [...ancestors, term.name];
+        term.children.forEach(child => walk(child, childAncestors));
+    };
+    terms.forEach(term => walk(term, []));
+    return index;
+}
+
+// All assignable keywords in tree order.
+export function listVocabularyKeywords(terms: VocabularyTerm[]): string[] {
+    const names: string[] = [];
+    const walk = (term: VocabularyTerm) => {
+        if (!term.isCategory) names.push(term.name);
+        term.children.forEach(walk);
+    };
+    terms.forEach(walk);
+    return [...new Set(names)];
+}
+
+export function listVocabularySynonyms(terms: VocabularyTerm[]): string[] {
+    return terms.flatMap(term => [...(term.isCategory ? [] : term.synonyms), ...listVocabularySynonyms(term.children)]);
+}
+
+export function countVocabularyTerms(terms: VocabularyTerm[]): number {
+    return terms.reduce((sum, term) => sum + 1 + countVocabularyTerms(term.children), 0);
+}
+
+// Replaces synonyms with their canonical keyword and, when asked, adds the
+// ancestors of every known keyword. Unknown keywords are kept unchanged.
+export function normalizeKeywords(keywords: string[], index: Map<string, VocabularyEntry>, includeAncestors: boolean): string[] {
+    const result: string[] = [];
+    keywords.forEach(keyword => {
+        const entry = index.get(keyword.trim().toLowerCase());
+        if (!entry) {
+            result.push(keyword);
+            return;
+        }
+        if (includeAncestors) result.push(...entry.ancestors);
+        result.push(entry.name);
+    });
+    return [...new Set(result)];
+}
+
+function toStoredTerms(value: unknown): VocabularyTerm[] {
+    if (!Array.isArray(value)) return [];
+    return value.filter(isRecord).filter(term => typeof term.name === 'string').map(term => ({
+        name: term.name as string,
+        synonyms: Array.isArray(term.synonyms) ? term.synonyms.filter((synonym): synonym is string => typeof synonym === 'string') : [],
+        children: toStoredTerms(term.children),
+        isCategory: term.isCategory === true,
+    }));
+}
+
+export function loadVocabulary(): Vocabulary {
+    return loadSetting(STORAGE_KEY, EMPTY_VOCABULARY, stored => {
+        const vocabulary = mergeDefaults(stored, EMPTY_VOCABULARY);
+        return { ...vocabulary, terms: toStoredTerms(vocabulary.terms) };
+    });
+}
+
+export function saveVocabulary(vocabulary: Vocabulary): void {
+    saveSetting(STORAGE_KEY, vocabulary, 'keyword vocabulary');
+}
@@ -0,0 +1,59 @@
+
+export interface UploadedFile {
+    file: File;
+    // Path inside the dropped or picked folder, e.g. "day1/beach/IMG_1.jpg";
+    // just the filename for loose files.
+    relativePath: string;
+}
+
+function readFile(entry: FileSystemFileEntry): Promise<File> {
+    return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// readEntries returns at most 100 entries per call, so keep reading until it
+// returns an empty batch.
+async function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) return entries;
+        entries.push(...batch);
+    }
+}
+
+async function walkEntry(entry: FileSystemEntry, parentPath: string, files: UploadedFile[]): Promise<void> {
+    const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+    if (entry.isFile) {
+        files.push({ file: await readFile(entry as FileSystemFileEntry), relativePath: path });
+    } else if (entry.isDirectory) {
+        const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+        for (const child of children.sort((a, b) => a.name.localeCompare(b.name))) {
+            await walkEntry(child, path, files);
+        }
+    }
+}
+
+// Collects every file from a drop, descending into dropped folders. Browsers
+// without the directory entry API get the flat file list.
+export async function readDroppedFiles(dataTransfer: DataTransfer): Promise<UploadedFile[]> {
+    // Entries must be taken synchronously; the item list is cleared once the drop handler yields.
+    const entries = Array.from(dataTransfer.items ?? [])
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+    if (entries.length === 0) {
+        return Array.from(dataTransfer.files).map(file => ({ file, relativePath: file.name }));
+    }
+
+    const files: UploadedFile[] = [];
+    for (const entry of entries) {
+        await walkEntry(entry, '', files);
+    }
+    return files;
+}
+
+// Files from an <input webkitdirectory> carry their path in webkitRelativePath.
+export function fromFileList(fileList: FileList): UploadedFile[] {
+    return Array.from(fileList).map(file => ({ file, relativePath: file.webkitRelativePath || file.name }));
+}
@@ -1,5 +1,9 @@
 
-export function toBase64(file: File): Promise<string | ArrayBuffer | null> {
+export function toBase64(file: Blob): Promise<string | ArrayBuffer | null> {
+    // Node has no FileReader; the command-line tool builds the data URL itself.
+    if (typeof FileReader === 'undefined') {
+        return file.arrayBuffer().then(buffer => `data:${file.type};base64,${Buffer.from(buffer).toString('base64')}`);
+    }
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
         reader.readAsDataURL(file);
@@ -7,3 +11,25 @@ export function toBase64(file: File): Promise<string | ArrayBuffer | null> {
         reader.onerror = error => reject(error);
     });
 }
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+}
@@ -0,0 +1,57 @@
+
+import { createCanvas } from './canvas';
+
+export async function sha256Hex(blob: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Difference hash: shrink to 9x8 grayscale and record whether each pixel is
+// brighter than its right neighbour. Returns 64 bits as 16 hex characters.
+export async function computeDHash(blob: Blob): Promise<string> {
+    const bitmap = await createImageBitmap(blob);
+    try {
+        // Shrinking in two steps averages more pixels than one big jump.
+        const intermediate = createCanvas(64, 64);
+        const intermediateContext = intermediate.getContext('2d') as CanvasRenderingContext2D | null;
+        const canvas = createCanvas(9, 8);
+        const context = canvas.getContext('2d') as CanvasRenderingContext2D | null;
+        if (!intermediateContext || !context) {
+            throw new Error("Canvas 2D context is not available.");
+        }
+        intermediateContext.imageSmoothingQuality = 'high';
+        intermediateContext.drawImage(bitmap, 0, 0, 64, 64);
+        context.imageSmoothingQuality = 'high';
+        context.drawImage(intermediate as CanvasImageSource, 0, 0, 9, 8);
+
+        const { data } = context.getImageData(0, 0, 9, 8);
+        const gray = (x: number, y: number) => {
+            const i = (y * 9 + x) * 4;
+            return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+        };
+
+        let hex = '';
+        for (let y = 0; y < 8; y++) {
+            let byte = 0;
+            for (let x = 0; x < 8; x++) {
+                byte = (byte << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+            }
+            hex += byte.toString(16).padStart(2, '0');
+        }
+        return hex;
+    } finally {
+        bitmap.close();
+    }
+}
+
+export function hammingDistance(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < a.length; i += 2) {
+        let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+        while (diff) {
+            distance += diff & 1;
+            diff >>= 1;
+        }
+    }
+    return distance;
+}
@@ -0,0 +1,45 @@
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction was aborted."));
+    });
+}
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+// Opens (and caches) a database. `upgrade` receives the old version so each
+// module can migrate its own stores step by step.
+export function openDatabase(
+    name: string,
+    version: number,
+    upgrade: (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void
+): Promise<IDBDatabase> {
+    let connection = connections.get(name);
+    if (!connection) {
+        connection = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error("IndexedDB is not available in this environment."));
+                return;
+            }
+            const request = indexedDB.open(name, version);
+            request.onupgradeneeded = (event) => {
+                upgrade(request.result, event.oldVersion, request.transaction!);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to try again if opening failed.
+        connection.catch(() => connections.delete(name));
+        connections.set(name, connection);
+    }
+    return connection;
+}
@@ -0,0 +1,15 @@
+
+// Helpers for the forward-slash relative paths of files uploaded in folders.
+
+export function dirname(path: string): string {
+    const index = path.lastIndexOf('/');
+    return index >= 0 ? path.slice(0, index) : '';
+}
+
+export function basename(path: string): string {
+    return path.slice(path.lastIndexOf('/') + 1);
+}
+
+export function joinPath(...parts: string[]): string {
+    return parts.filter(Boolean).join('/');
+}
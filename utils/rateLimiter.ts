@@ -0,0 +1,66 @@
+
+// Resolves after `ms`, or immediately once `signal` is aborted.
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        if (signal?.aborted) {
+            resolve();
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export interface TokenBucket {
+    // Waits until a request may be sent. Returns early if `signal` aborts.
+    take: (signal?: AbortSignal) => Promise<void>;
+    // Empties the bucket and blocks every caller for `ms`, e.g. after a 429.
+    block: (ms: number) => void;
+}
+
+export function createTokenBucket(requestsPerMinute: number, capacity: number): TokenBucket {
+    const refillPerMs = requestsPerMinute / 60_000;
+    let tokens = capacity;
+    let lastRefill = Date.now();
+    let blockedUntil = 0;
+
+    const refill = () => {
+        const now = Date.now();
+        if (now > lastRefill) {
+            tokens = Math.min(capacity, tokens + (now - lastRefill) * refillPerMs);
+            lastRefill = now;
+        }
+    };
+
+    const take = async (signal?: AbortSignal) => {
+        while (!signal?.aborted) {
+            const now = Date.now();
+            if (blockedUntil > now) {
+                await sleep(blockedUntil - now, signal);
+                continue;
+            }
+            refill();
+            if (tokens >= 1) {
+                tokens -= 1;
+                return;
+            }
+            await sleep(Math.ceil((1 - tokens) / refillPerMs), signal);
+        }
+    };
+
+    const block = (ms: number) => {
+        tokens = 0;
+        blockedUntil = Math.max(blockedUntil, Date.now() + ms);
+        // Start refilling only once the block is over.
+        lastRefill = blockedUntil;
+    };
+
+    return { take, block };
+}
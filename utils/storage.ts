@@ -0,0 +1,60 @@
+
+// Settings kept in localStorage as JSON. What comes back may have been saved
+// by an older version or edited by hand, so every load goes through a
+// validator that turns it into a complete, trusted value.
+
+export type SettingValidator<T> = (stored: unknown) => T;
+
+// Older versions stored a few settings as plain strings rather than JSON.
+function parseStored(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+export function loadSetting<T>(key: string, fallback: T, validate: SettingValidator<T>): T {
+    try {
+        const stored = localStorage.getItem(key);
+        return stored === null ? fallback : validate(parseStored(stored));
+    } catch {
+        return fallback;
+    }
+}
+
+// `label` names the setting in the console message.
+export function saveSetting<T>(key: string, value: T, label: string): void {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+        console.error(`Failed to save ${label}:`, error);
+    }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Takes each field of `defaults` from `stored` when it has the same type;
+// unknown and mistyped fields are dropped.
+export function mergeDefaults<T extends object>(stored: unknown, defaults: T): T {
+    if (!isRecord(stored)) return defaults;
+    const result = { ...defaults };
+    (Object.keys(defaults) as (keyof T & string)[]).forEach(key => {
+        const value = stored[key];
+        const fallback = defaults[key];
+        const sameType = Array.isArray(fallback) ? Array.isArray(value) : typeof value === typeof fallback && value !== null;
+        if (sameType) result[key] = value as T[typeof key];
+    });
+    return result;
+}
+
+export function oneOf<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+    return allowed.includes(value as T) ? value as T : fallback;
+}
+
+// Keeps only the allowed entries of a stored list.
+export function listOf<T extends string>(value: unknown, allowed: readonly T[]): T[] {
+    return Array.isArray(value) ? value.filter((entry): entry is T => allowed.includes(entry)) : [];
+}
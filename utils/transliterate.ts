@@ -0,0 +1,108 @@
+
+// Modified Hepburn romanization of hiragana. Katakana is mapped onto these
+// entries by code point before lookup.
+const KANA: Record<string, string> = {
+    'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
+    'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
+    'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
+    'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so',
+    'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
+    'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to',
+    'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do',
+    'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+    'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho',
+    'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+    'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
+    'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
+    'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
+    'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
+    'わ': 'wa', 'ゐ': 'wi', 'ゑ': 'we', 'を': 'o', 'ん': 'n', 'ゔ': 'vu',
+    'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o', 'ゎ': 'wa',
+};
+
+const SMALL_Y: Record<string, string> = { 'ゃ': 'ya', 'ゅ': 'yu', 'ょ': 'yo' };
+const SMALL_VOWELS: Record<string, string> = { 'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o' };
+
+// Letters that Unicode decomposition doesn't reduce to a base letter.
+const SPECIAL_LETTERS: Record<string, string> = {
+    'ß': 'ss', 'ẞ': 'SS', 'æ': 'ae', 'Æ': 'AE', 'œ': 'oe', 'Œ': 'OE', 'ø': 'o', 'Ø': 'O',
+    'ł': 'l', 'Ł': 'L', 'đ': 'd', 'Đ': 'D', 'ð': 'd', 'Ð': 'D', 'þ': 'th', 'Þ': 'TH', 'ı': 'i',
+};
+
+// German spells umlauts out when they can't be written; other languages just drop the dots.
+const GERMAN_UMLAUTS: Record<string, string> = {
+    'ä': 'ae', 'ö': 'oe', 'ü': 'ue', 'Ä': 'Ae', 'Ö': 'Oe', 'Ü': 'Ue',
+};
+
+function toHiragana(char: string): string {
+    const code = char.charCodeAt(0);
+    return code >= 0x30a1 && code <= 0x30f6 ? String.fromCharCode(code - 0x60) : char;
+}
+
+function romanizeKana(text: string): string {
+    const chars = [...text].map(toHiragana);
+    let result = '';
+    let doubleNext = false;
+
+    for (let i = 0; i < chars.length; i++) {
+        const char = chars[i];
+        // Sokuon doubles the consonant of the following syllable.
+        if (char === 'っ') {
+            doubleNext = true;
+            continue;
+        }
+        // Long vowel marks are dropped, as in most romanized filenames and URLs.
+        if (char === 'ー') continue;
+
+        let romaji = KANA[char];
+        if (romaji === undefined) {
+            result += char;
+            doubleNext = false;
+            continue;
+        }
+
+        const next = chars[i + 1];
+        if (next && SMALL_Y[next] && romaji.endsWith('i') && romaji.length > 1) {
+            // きゃ -> kya, しゃ -> sha, じゃ -> ja
+            const stem = romaji.slice(0, -1);
+            romaji = ['sh', 'ch', 'j'].includes(stem) ? stem + SMALL_Y[next].slice(1) : stem + SMALL_Y[next];
+            i++;
+        } else if (next && SMALL_VOWELS[next] && romaji !== SMALL_VOWELS[next]) {
+            // Katakana loanword spellings: ファ -> fa, ティ -> ti, ウィ -> wi
+            const stem = romaji === 'u' ? 'w' : romaji === 'tsu' ? 'ts' : romaji.slice(0, -1);
+            romaji = stem + SMALL_VOWELS[next];
+            i++;
+        }
+
+        if (doubleNext) {
+            romaji = romaji.startsWith('ch') ? `t${romaji}` : romaji.charAt(0) + romaji;
+            doubleNext = false;
+        }
+        result += romaji;
+    }
+    return result;
+}
+
+// Rewrites text into plain ASCII letters where possible: kana becomes romaji
+// and accented letters lose their accents. Characters with no known
+// transliteration, such as kanji, are left in place for the caller to handle.
+export function transliterate(text: string, language?: string): string {
+    // NFKC first so half-width katakana and full-width letters become regular characters.
+    let result = romanizeKana(text.normalize('NFKC'));
+    if (language === 'de') {
+        result = result.replace(/[äöüÄÖÜ]/g, char => GERMAN_UMLAUTS[char]);
+    }
+    result = result.replace(/[ßẞæÆœŒøØłŁđĐðÐþÞı]/g, char => SPECIAL_LETTERS[char]);
+    return result.normalize('NFD').replace(/\p{M}/gu, '');
+}
+
+// Lowercase ASCII slug with hyphens between words.
+export function slugify(text: string, language?: string): string {
+    return transliterate(text, language)
+        .trim()
+        .toLowerCase()
+        .replace(/[\s_]+/g, '-')
+        .replace(/[^a-z0-9-]/g, '')
+        .replace(/-+/g, '-')
+        .replace(/^-|-$/g, '');
+}
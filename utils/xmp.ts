@@ -0,0 +1,88 @@
+
+export interface XmpFields {
+    title?: string;
+    description?: string;
+    altText?: string;
+    keywords: string[];
+}
+
+export function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+const langAlt = (tag: string, value: string) =>
+    `   <${tag}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></${tag}>`;
+
+const NAMESPACES: Record<string, string> = {
+    dc: 'http://purl.org/dc/elements/1.1/',
+    photoshop: 'http://ns.adobe.com/photoshop/1.0/',
+    Iptc4xmpCore: 'http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/',
+};
+
+// Every property this app writes; merging replaces exactly these.
+const WRITTEN_PROPERTIES = ['dc:title', 'photoshop:Headline', 'dc:description', 'Iptc4xmpCore:AltTextAccessibility', 'dc:subject'];
+
+function propertyLines(fields: XmpFields): string[] {
+    const lines: string[] = [];
+    if (fields.title) {
+        lines.push(langAlt('dc:title', fields.title));
+        lines.push(`   <photoshop:Headline>${escapeXml(fields.title)}</photoshop:Headline>`);
+    }
+    if (fields.description) {
+        lines.push(langAlt('dc:description', fields.description));
+    }
+    if (fields.altText) {
+        lines.push(langAlt('Iptc4xmpCore:AltTextAccessibility', fields.altText));
+    }
+    if (fields.keywords.length > 0) {
+        const items = fields.keywords.map(k => `     <rdf:li>${escapeXml(k)}</rdf:li>`).join('\n');
+        lines.push(`   <dc:subject>\n    <rdf:Bag>\n${items}\n    </rdf:Bag>\n   </dc:subject>`);
+    }
+    return lines;
+}
+
+// Builds a complete XMP packet using the Dublin Core and Photoshop
+// namespaces, which is what Lightroom, Bridge and the stock sites read, plus
+// the IPTC Core alt text property.
+export function buildXmpPacket(fields: XmpFields): string {
+    return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+${Object.entries(NAMESPACES).map(([prefix, uri]) => `    xmlns:${prefix}="${uri}"`).join('\n')}>
+${propertyLines(fields).join('\n')}
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+// Writes the fields into an existing packet, keeping everything else in it
+// (creator, rights, rating, ...). The packet is edited as text so this also
+// runs in Node; if it has no rdf:Description a new packet is built instead.
+export function mergeXmpPacket(existing: string, fields: XmpFields): string {
+    let xml = existing;
+    for (const property of WRITTEN_PROPERTIES) {
+        // Element form, with content or self-closing, and the attribute form for simple values.
+        xml = xml.replace(new RegExp(`\\s*<${property}(\\s[^>]*?)?(/>|>[\\s\\S]*?</${property}>)`, 'g'), '');
+        xml = xml.replace(new RegExp(`\\s${property}=("[^"]*"|'[^']*')`, 'g'), '');
+    }
+
+    const description = xml.match(/<rdf:Description\b[^>]*?(\/?)>/);
+    if (!description || description.index === undefined) return buildXmpPacket(fields);
+
+    const declarations = Object.entries(NAMESPACES)
+        .filter(([prefix]) => !xml.includes(`xmlns:${prefix}=`))
+        .map(([prefix, uri]) => `\n    xmlns:${prefix}="${uri}"`)
+        .join('');
+    const isSelfClosing = description[1] === '/';
+    const openTag = description[0].slice(0, isSelfClosing ? -2 : -1).trimEnd() + declarations + '>';
+    const lines = propertyLines(fields).map(line => `\n${line}`).join('');
+    const replacement = isSelfClosing ? `${openTag}${lines}\n  </rdf:Description>` : `${openTag}${lines}`;
+    return xml.slice(0, description.index) + replacement + xml.slice(description.index + description[0].length);
+}
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Builds the Node command-line tool. Unlike the web build, API keys are read
+// from the environment at run time instead of being baked in.
+export default defineConfig({
+  build: {
+    ssr: 'cli/index.ts',
+    outDir: 'dist/cli',
+    emptyOutDir: true,
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'ai-renamer.js',
+      },
+    },
+  },
+});